@@ -0,0 +1,76 @@
+import { useMemo, useState } from "react";
+import { decode } from "blurhash";
+import { cn } from "@/lib/utils";
+import { mediaUrl, type ImageAttachment } from "@shared/schema";
+
+interface AttachmentImageProps {
+  attachment: ImageAttachment;
+  alt: string;
+  maxWidth?: number;
+  className?: string;
+  onClick?: () => void;
+}
+
+// Small enough to decode instantly; the browser scales it up with a blur
+const PLACEHOLDER_SIZE = 32;
+
+function blurhashToDataUrl(blurhash: string, width: number, height: number) {
+  try {
+    const pixels = decode(blurhash, width, height);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+    const imageData = context.createImageData(width, height);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+}
+
+export default function AttachmentImage({ attachment, alt, maxWidth = 256, className, onClick }: AttachmentImageProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const placeholder = useMemo(() => {
+    const scale = PLACEHOLDER_SIZE / Math.max(attachment.width, attachment.height);
+    return blurhashToDataUrl(
+      attachment.blurhash,
+      Math.max(1, Math.round(attachment.width * scale)),
+      Math.max(1, Math.round(attachment.height * scale))
+    );
+  }, [attachment.blurhash, attachment.width, attachment.height]);
+
+  // Small images are shown at their own size rather than stretched
+  const width = Math.min(maxWidth, attachment.width);
+  const rendition = attachment.renditions.medium ? "medium" : undefined;
+
+  return (
+    <div
+      className={cn("relative overflow-hidden rounded-lg bg-muted", onClick && "cursor-pointer", className)}
+      style={{
+        width,
+        maxWidth: "100%",
+        aspectRatio: `${attachment.width} / ${attachment.height}`,
+        backgroundImage: placeholder ? `url(${placeholder})` : undefined,
+        backgroundSize: "cover",
+      }}
+      onClick={onClick}
+      data-testid={`attachment-${attachment.mediaId}`}
+    >
+      <img
+        src={mediaUrl(attachment.mediaId, rendition)}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setIsLoaded(true)}
+        className={cn(
+          "absolute inset-0 h-full w-full object-cover transition-opacity duration-300",
+          isLoaded ? "opacity-100" : "opacity-0"
+        )}
+      />
+    </div>
+  );
+}
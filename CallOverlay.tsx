@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Mic, MicOff, Phone, PhoneOff, Video, VideoOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import UserAvatar from "@/components/UserAvatar";
+import { formatDuration } from "@/components/VoiceRecorderButton";
+import { cn } from "@/lib/utils";
+import type { CallState } from "@/hooks/useCall";
+
+interface CallOverlayProps {
+  call: CallState;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  isMuted: boolean;
+  isCameraOff: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onHangUp: () => void;
+  onToggleMute: () => void;
+  onToggleCamera: () => void;
+}
+
+// Callback ref that plays a stream in whichever media element is currently mounted
+function playStream(stream: MediaStream | null) {
+  return (element: HTMLMediaElement | null) => {
+    if (element && element.srcObject !== stream) {
+      element.srcObject = stream;
+    }
+  };
+}
+
+function describePhase(call: CallState, elapsedMs: number) {
+  const kind = call.kind === "video" ? "video call" : "voice call";
+  switch (call.phase) {
+    case "incoming":
+      return `Incoming ${kind}…`;
+    case "outgoing":
+      return "Calling…";
+    case "connecting":
+      return "Connecting…";
+    case "active":
+      return formatDuration(elapsedMs);
+  }
+}
+
+export default function CallOverlay({
+  call,
+  localStream,
+  remoteStream,
+  isMuted,
+  isCameraOff,
+  onAccept,
+  onDecline,
+  onHangUp,
+  onToggleMute,
+  onToggleCamera,
+}: CallOverlayProps) {
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  useEffect(() => {
+    if (call.phase !== "active" || !call.answeredAt) return;
+    const answeredAt = call.answeredAt;
+    setElapsedMs(Date.now() - answeredAt);
+    const timer = setInterval(() => setElapsedMs(Date.now() - answeredAt), 1000);
+    return () => clearInterval(timer);
+  }, [call.phase, call.answeredAt]);
+
+  const isVideo = call.kind === "video";
+  const showRemoteVideo = isVideo && call.phase === "active" && !!remoteStream;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-between bg-gray-950/95 text-white p-8" data-testid="call-overlay">
+      {showRemoteVideo ? (
+        <video ref={playStream(remoteStream)} autoPlay playsInline className="absolute inset-0 h-full w-full object-contain" />
+      ) : (
+        <audio ref={playStream(remoteStream)} autoPlay />
+      )}
+      {isVideo && localStream && (
+        <video
+          ref={playStream(localStream)}
+          autoPlay
+          playsInline
+          muted
+          className={cn(
+            "absolute top-4 right-4 w-40 rounded-lg border border-white/20 bg-black object-cover -scale-x-100 z-10",
+            isCameraOff && "invisible"
+          )}
+          data-testid="call-local-video"
+        />
+      )}
+
+      <div className={cn("relative z-10 flex flex-col items-center space-y-3 mt-12", showRemoteVideo && "mt-0")}>
+        {!showRemoteVideo && <UserAvatar user={call.peer} size="xl" showOnlineStatus={false} />}
+        <h2 className="text-2xl font-semibold">{call.peer.displayName}</h2>
+        <p className="text-sm text-white/70 tabular-nums" data-testid="call-status">
+          {describePhase(call, elapsedMs)}
+        </p>
+      </div>
+
+      <div className="relative z-10 flex items-center space-x-6">
+        {call.phase === "incoming" ? (
+          <>
+            <Button
+              onClick={onDecline}
+              className="h-14 w-14 rounded-full bg-red-600 hover:bg-red-700"
+              title="Decline"
+              data-testid="button-decline-call"
+            >
+              <PhoneOff className="h-6 w-6" />
+            </Button>
+            <Button
+              onClick={onAccept}
+              className="h-14 w-14 rounded-full bg-green-600 hover:bg-green-700"
+              title="Accept"
+              data-testid="button-accept-call"
+            >
+              {isVideo ? <Video className="h-6 w-6" /> : <Phone className="h-6 w-6" />}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              onClick={onToggleMute}
+              variant="secondary"
+              className="h-12 w-12 rounded-full"
+              title={isMuted ? "Unmute" : "Mute"}
+              data-testid="button-call-mute"
+            >
+              {isMuted ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+            </Button>
+            {isVideo && (
+              <Button
+                onClick={onToggleCamera}
+                variant="secondary"
+                className="h-12 w-12 rounded-full"
+                title={isCameraOff ? "Turn camera on" : "Turn camera off"}
+                data-testid="button-call-camera"
+              >
+                {isCameraOff ? <VideoOff className="h-5 w-5" /> : <Video className="h-5 w-5" />}
+              </Button>
+            )}
+            <Button
+              onClick={onHangUp}
+              className="h-14 w-14 rounded-full bg-red-600 hover:bg-red-700"
+              title="Hang up"
+              data-testid="button-hang-up"
+            >
+              <PhoneOff className="h-6 w-6" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,67 +1,242 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import { useCall } from "@/hooks/useCall";
+import { usePresence } from "@/hooks/usePresence";
 import ChatSidebar from "@/components/ChatSidebar";
 import MessageArea from "@/components/MessageArea";
 import ProfileModal from "@/components/ProfileModal";
+import CallOverlay from "@/components/CallOverlay";
+import ConnectionBanner from "@/components/ConnectionBanner";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { PublicUser, Message } from "@shared/schema";
-
-interface ChatData {
-  user: PublicUser;
-  lastMessage?: Message;
-  unreadCount: number;
-}
+import {
+  MESSAGE_PAGE_SIZE,
+  type PublicUser,
+  type ChatMessage,
+  type ChatListEntry,
+  type ConversationDetails,
+  type MessageSearchResult,
+  type MessageType,
+} from "@shared/schema";
 
 export default function Chat() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedUser, setSelectedUser] = useState<PublicUser | null>(null);
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [showProfile, setShowProfile] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  // While browsing history around a search hit the newest page isn't loaded,
+  // so refreshed chat queries must not replace what is on screen
+  const viewingHistoryRef = useRef(false);
 
   const { 
     isConnected, 
+    status: connectionStatus,
+    reconnectNow,
     messages, 
     typingUsers, 
+    outbox,
     sendMessage, 
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendTypingIndicator,
+    markMessagesRead,
+    sendCallEvent,
+    onCallEvent,
     setMessages
   } = useWebSocket(user?.id);
 
+  const {
+    call,
+    localStream,
+    remoteStream,
+    isMuted: isCallMuted,
+    isCameraOff,
+    startCall,
+    acceptCall,
+    declineCall,
+    hangUp,
+    toggleMute,
+    toggleCamera,
+  } = useCall({ sendCallEvent, onCallEvent });
+
   // Get chat conversations
-  const { data: conversations = [], refetch: refetchConversations } = useQuery<ChatData[]>({
+  const { data: conversations = [], refetch: refetchConversations } = useQuery<ChatListEntry[]>({
     queryKey: ["/api/chat/conversations"],
     enabled: !!user,
   });
 
-  // Get online users
-  const { data: onlineUsers = [] } = useQuery<PublicUser[]>({
-    queryKey: ["/api/users/online"],
-    enabled: !!user,
-    refetchInterval: 5000, // Refresh every 5 seconds for more live updates
-  });
+  // Keep the open group in sync with the chat list so renames and member changes show up
+  const selectedConversation = conversations.find(
+    (entry): entry is Extract<ChatListEntry, { kind: "group" }> =>
+      entry.kind === "group" && entry.conversation.id === selectedConversationId
+  )?.conversation ?? null;
+
+  const selectedChatEntry = conversations.find(entry =>
+    entry.kind === "group"
+      ? entry.conversation.id === selectedConversationId
+      : !selectedConversationId && entry.user.id === selectedUser?.id
+  );
 
-  // Get messages for selected user
-  const { data: chatMessages = [], refetch: refetchMessages } = useQuery<Message[]>({
-    queryKey: ["/api/chat/messages", selectedUser?.id],
-    enabled: !!selectedUser,
+  // Online people we share a chat or contact with, kept live by the socket
+  const { onlineUsers } = usePresence();
+
+  // Get messages for selected user or group
+  const { data: chatMessages = [], refetch: refetchMessages } = useQuery<ChatMessage[]>({
+    queryKey: selectedConversationId
+      ? ["/api/chat/conversations", selectedConversationId, "messages"]
+      : ["/api/chat/messages", selectedUser?.id],
+    enabled: !!selectedUser || !!selectedConversationId,
   });
 
+  // Only show messages that belong to the open chat
+  const visibleMessages = messages.filter(message =>
+    selectedConversationId
+      ? message.conversationId === selectedConversationId
+      : !message.conversationId && !!selectedUser &&
+        (message.senderId === selectedUser.id || message.receiverId === selectedUser.id)
+  );
+
+  // Unconfirmed messages show up in the chat they were written in
+  const pendingMessages = outbox.filter(pending =>
+    selectedConversationId
+      ? pending.conversationId === selectedConversationId
+      : !pending.conversationId && pending.receiverId === selectedUser?.id
+  );
+
+  // Messages count as read while their chat is open and the tab is in front
+  const readerPartnerId = !selectedConversationId && selectedUser &&
+    visibleMessages.some(message => message.senderId === selectedUser.id && !message.readAt)
+    ? selectedUser.id
+    : null;
+
+  useEffect(() => {
+    if (!readerPartnerId) return;
+    const markRead = () => {
+      if (document.visibilityState !== "visible") return;
+      markMessagesRead(readerPartnerId);
+      setMessages(prev => prev.map(message =>
+        message.senderId === readerPartnerId && !message.readAt ? { ...message, readAt: new Date() } : message
+      ));
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    };
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [readerPartnerId, markMessagesRead, setMessages, queryClient]);
+
+  // Loading a group's history marks it read, so its unread count in the chat list is stale.
+  // exact keeps the group's own history query, which shares the prefix, from refetching.
+  useEffect(() => {
+    if (selectedConversationId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+    }
+  }, [selectedConversationId, chatMessages, queryClient]);
+
   // Update messages when new ones arrive via WebSocket
   useEffect(() => {
+    if (viewingHistoryRef.current) return;
     if (chatMessages.length > 0) {
       setMessages(chatMessages);
     }
+    // A full first page means there may be older history to load
+    setHasOlderMessages(chatMessages.length >= MESSAGE_PAGE_SIZE);
   }, [chatMessages, setMessages]);
 
+  const historyUrlFor = (chat: { conversationId?: string | null; userId?: string }) =>
+    chat.conversationId
+      ? `/api/chat/conversations/${chat.conversationId}/messages`
+      : `/api/chat/messages/${chat.userId}`;
+
+  // Load the page before the oldest or after the newest loaded message; returns how many were added
+  const loadMessagePage = async (direction: "before" | "after") => {
+    const anchorMessage = direction === "before"
+      ? visibleMessages[0]
+      : visibleMessages[visibleMessages.length - 1];
+    if (!anchorMessage) return 0;
+
+    const historyUrl = historyUrlFor({ conversationId: selectedConversationId, userId: selectedUser?.id });
+
+    try {
+      const response = await apiRequest("GET", `${historyUrl}?${direction}=${anchorMessage.id}`);
+      const page: ChatMessage[] = await response.json();
+      const isFullPage = page.length >= MESSAGE_PAGE_SIZE;
+
+      setMessages(prev => {
+        const newMessages = page.filter(paged => !prev.some(message => message.id === paged.id));
+        return direction === "before" ? [...newMessages, ...prev] : [...prev, ...newMessages];
+      });
+      if (direction === "before") {
+        setHasOlderMessages(isFullPage);
+      } else {
+        setHasNewerMessages(isFullPage);
+        viewingHistoryRef.current = isFullPage;
+      }
+      return page.length;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load messages",
+        variant: "destructive",
+      });
+      return 0;
+    }
+  };
+
+  // Open the chat a search hit belongs to, with the hit and the pages around it loaded
+  const handleSearchResultSelect = async (result: MessageSearchResult) => {
+    const { message, chat } = result;
+    viewingHistoryRef.current = true;
+    if (chat.kind === "group") {
+      setSelectedConversationId(chat.conversation.id);
+      setSelectedUser(null);
+    } else {
+      setSelectedUser(chat.user);
+      setSelectedConversationId(null);
+    }
+
+    const historyUrl = historyUrlFor({
+      conversationId: message.conversationId,
+      userId: chat.kind === "direct" ? chat.user.id : undefined,
+    });
+
+    try {
+      const [olderResponse, newerResponse] = await Promise.all([
+        apiRequest("GET", `${historyUrl}?before=${message.id}`),
+        apiRequest("GET", `${historyUrl}?after=${message.id}`),
+      ]);
+      const olderMessages: ChatMessage[] = await olderResponse.json();
+      const newerMessages: ChatMessage[] = await newerResponse.json();
+
+      setMessages([...olderMessages, message, ...newerMessages]);
+      setHasOlderMessages(olderMessages.length >= MESSAGE_PAGE_SIZE);
+      setHasNewerMessages(newerMessages.length >= MESSAGE_PAGE_SIZE);
+      viewingHistoryRef.current = newerMessages.length >= MESSAGE_PAGE_SIZE;
+      setFocusMessageId(message.id);
+    } catch (error) {
+      viewingHistoryRef.current = false;
+      toast({
+        title: "Error",
+        description: "Failed to open message",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleLogout = async () => {
     try {
-      await apiRequest("POST", "/api/logout");
+      await apiRequest("POST", "/api/auth/logout");
       queryClient.clear();
       window.location.reload();
     } catch (error: any) {
@@ -82,23 +257,42 @@ export default function Chat() {
     }
   };
 
-  const handleSendMessage = (content: string, messageType: string = "text", imageUrl?: string) => {
-    if (selectedUser && user) {
-      sendMessage(selectedUser.id, content, messageType, imageUrl);
+  const handleSendMessage = (content: string, messageType: MessageType = "text", mediaId?: string, replyToId?: string) => {
+    if (selectedConversationId && user) {
+      sendMessage({ conversationId: selectedConversationId }, content, messageType, mediaId, replyToId);
+    } else if (selectedUser && user) {
+      sendMessage({ receiverId: selectedUser.id }, content, messageType, mediaId, replyToId);
     }
   };
 
+  const resetHistoryWindow = () => {
+    viewingHistoryRef.current = false;
+    setHasNewerMessages(false);
+    setFocusMessageId(null);
+  };
+
   const handleUserSelect = (chatUser: PublicUser) => {
+    resetHistoryWindow();
     setSelectedUser(chatUser);
+    setSelectedConversationId(null);
     // Refresh messages when selecting a user
     if (chatUser.id) {
       queryClient.invalidateQueries({ queryKey: ["/api/chat/messages", chatUser.id] });
     }
   };
 
+  const handleConversationSelect = (conversation: ConversationDetails) => {
+    resetHistoryWindow();
+    setSelectedConversationId(conversation.id);
+    setSelectedUser(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations", conversation.id, "messages"] });
+  };
+
   const handleTyping = (isTyping: boolean) => {
-    if (selectedUser) {
-      sendTypingIndicator(selectedUser.id, isTyping);
+    if (selectedConversationId) {
+      sendTypingIndicator({ conversationId: selectedConversationId }, isTyping);
+    } else if (selectedUser) {
+      sendTypingIndicator({ receiverId: selectedUser.id }, isTyping);
     }
   };
 
@@ -175,25 +369,61 @@ export default function Chat() {
         </div>
       </header>
 
+      <ConnectionBanner status={connectionStatus} onReconnectNow={reconnectNow} />
+
       <div className="flex h-[calc(100vh-73px)] chat-container">
         <ChatSidebar
           conversations={conversations}
           onlineUsers={onlineUsers}
           selectedUser={selectedUser}
+          selectedConversationId={selectedConversation?.id ?? null}
           onUserSelect={handleUserSelect}
+          onConversationSelect={handleConversationSelect}
+          onSearchResultSelect={handleSearchResultSelect}
           currentUserId={user.id}
         />
         
         <MessageArea
           selectedUser={selectedUser}
-          messages={messages}
+          selectedConversation={selectedConversation}
+          messages={visibleMessages}
+          pendingMessages={pendingMessages}
+          onRetryMessage={retryMessage}
+          onDiscardMessage={discardMessage}
+          hasOlderMessages={hasOlderMessages}
+          hasNewerMessages={hasNewerMessages}
+          onLoadOlderMessages={() => loadMessagePage("before")}
+          onLoadNewerMessages={() => loadMessagePage("after")}
+          focusMessageId={focusMessageId}
+          onFocusHandled={() => setFocusMessageId(null)}
           typingUsers={typingUsers}
           onSendMessage={handleSendMessage}
+          onEditMessage={editMessage}
+          onDeleteMessage={deleteMessage}
+          onToggleReaction={toggleReaction}
           onTyping={handleTyping}
+          isMuted={selectedChatEntry?.isMuted ?? false}
+          onStartCall={(kind) => selectedUser && startCall(selectedUser, kind)}
+          isInCall={!!call}
           currentUserId={user.id}
         />
       </div>
 
+      {call && (
+        <CallOverlay
+          call={call}
+          localStream={localStream}
+          remoteStream={remoteStream}
+          isMuted={isCallMuted}
+          isCameraOff={isCameraOff}
+          onAccept={acceptCall}
+          onDecline={declineCall}
+          onHangUp={hangUp}
+          onToggleMute={toggleMute}
+          onToggleCamera={toggleCamera}
+        />
+      )}
+
       {/* Profile Modal */}
       {showProfile && (
         <ProfileModal
@@ -1,19 +1,23 @@
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
-import UserAvatar from "@/components/UserAvatar";
-import type { PublicUser, Message } from "@shared/schema";
-
-interface ChatData {
-  user: PublicUser;
-  lastMessage?: Message;
-  unreadCount: number;
-}
+import { Button } from "@/components/ui/button";
+import UserAvatar, { presenceLabels } from "@/components/UserAvatar";
+import GroupAvatar from "@/components/GroupAvatar";
+import CreateGroupModal from "@/components/CreateGroupModal";
+import MessageSearchResults from "@/components/MessageSearchResults";
+import NewChatDialog from "@/components/NewChatDialog";
+import { useContacts } from "@/hooks/useContacts";
+import { usePresence } from "@/hooks/usePresence";
+import { visiblePresence, type PublicUser, type ChatListEntry, type ConversationDetails, type MessageSearchResult } from "@shared/schema";
 
 interface ChatSidebarProps {
-  conversations: ChatData[];
+  conversations: ChatListEntry[];
   onlineUsers: PublicUser[];
   selectedUser: PublicUser | null;
+  selectedConversationId: string | null;
   onUserSelect: (user: PublicUser) => void;
+  onConversationSelect: (conversation: ConversationDetails) => void;
+  onSearchResultSelect: (result: MessageSearchResult) => void;
   currentUserId: string;
 }
 
@@ -21,30 +25,65 @@ export default function ChatSidebar({
   conversations,
   onlineUsers,
   selectedUser,
+  selectedConversationId,
   onUserSelect,
+  onConversationSelect,
+  onSearchResultSelect,
   currentUserId,
 }: ChatSidebarProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const [showNewChat, setShowNewChat] = useState(false);
+  const { accepted, incomingRequests, outgoingRequests, sendRequest, respondToRequest } = useContacts();
+  const { presenceOf } = usePresence();
+
+  // A custom status wins over how the user appears right now
+  const describePresence = (user: PublicUser) => {
+    const presence = presenceOf(user);
+    const customStatus = [presence.statusEmoji, presence.status].filter(Boolean).join(" ");
+    return customStatus || presenceLabels[visiblePresence(presence)];
+  };
+
+  const matchesSearch = (user: PublicUser) =>
+    searchQuery === "" ||
+    user.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    user.username.toLowerCase().includes(searchQuery.toLowerCase());
+
+  const hasDirectChat = (user: PublicUser) =>
+    conversations.some(conv => conv.kind === "direct" && conv.user.id === user.id);
 
   // Filter conversations based on search
   const filteredConversations = conversations.filter(conversation =>
-    conversation.user.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    conversation.user.username.toLowerCase().includes(searchQuery.toLowerCase())
+    conversation.kind === "group"
+      ? conversation.conversation.name.toLowerCase().includes(searchQuery.toLowerCase())
+      : conversation.user.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        conversation.user.username.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   // Show all online users (including those with conversations for easier access)
   const allUsers = onlineUsers.filter(user => 
-    user.id !== currentUserId &&
-    (searchQuery === "" || 
-     user.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-     user.username.toLowerCase().includes(searchQuery.toLowerCase()))
+    user.id !== currentUserId && matchesSearch(user)
   );
-  
-  // Show users who don't have conversations yet
-  const availableUsers = allUsers.filter(user => 
-    !conversations.some(conv => conv.user.id === user.id)
+
+  // Contacts who don't have conversations yet
+  const contactIds = new Set(accepted.map(entry => entry.user.id));
+  const availableFriends = accepted
+    .map(entry => entry.user)
+    .filter(user => matchesSearch(user) && !hasDirectChat(user));
+
+  // Online people who aren't contacts yet and can be sent a request
+  const requestedIds = new Set(outgoingRequests.map(entry => entry.user.id));
+  const availableUsers = allUsers.filter(user =>
+    !contactIds.has(user.id) && !hasDirectChat(user)
   );
 
+  // People who can be added to a new group: direct chat partners, contacts and online users
+  const groupCandidates = [
+    ...conversations.flatMap(conv => conv.kind === "direct" ? [conv.user] : []),
+    ...availableFriends,
+    ...availableUsers,
+  ];
+
   const formatTime = (date?: Date) => {
     if (!date) return "";
     const now = new Date();
@@ -63,22 +102,84 @@ export default function ChatSidebar({
   return (
     <div className="w-80 bg-card border-r border-border flex flex-col">
       {/* Search */}
-      <div className="p-4 border-b border-border">
-        <div className="relative">
+      <div className="p-4 border-b border-border flex items-center space-x-2">
+        <div className="relative flex-1">
           <i className="fas fa-search absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground text-sm"></i>
           <Input
-            placeholder="Search friends..."
+            placeholder="Search chats and messages..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
             data-testid="input-search-users"
           />
         </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowNewChat(true)}
+          title="New Chat"
+          data-testid="button-new-chat"
+        >
+          <i className="fas fa-edit text-muted-foreground"></i>
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowCreateGroup(true)}
+          title="New Group"
+          data-testid="button-new-group"
+        >
+          <i className="fas fa-users text-muted-foreground"></i>
+        </Button>
       </div>
 
       {/* Chat List */}
       <div className="flex-1 overflow-y-auto">
         <div className="p-4">
+          {/* Incoming Friend Requests */}
+          {incomingRequests.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+                Friend Requests
+              </h3>
+              <div className="space-y-2 mb-6" data-testid="friend-requests">
+                {incomingRequests.map(({ contact, user }) => (
+                  <div
+                    key={contact.id}
+                    className="flex items-center space-x-3 p-3 rounded-lg bg-accent/50"
+                    data-testid={`friend-request-${contact.id}`}
+                  >
+                    <UserAvatar user={user} size="md" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-card-foreground truncate">
+                        {user.displayName}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">@{user.username}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => respondToRequest(contact.id, true)}
+                      title="Accept"
+                      data-testid={`button-accept-request-${contact.id}`}
+                    >
+                      <i className="fas fa-check text-primary"></i>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => respondToRequest(contact.id, false)}
+                      title="Decline"
+                      data-testid={`button-decline-request-${contact.id}`}
+                    >
+                      <i className="fas fa-times text-muted-foreground"></i>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           {/* Recent Conversations */}
           {filteredConversations.length > 0 && (
             <>
@@ -86,34 +187,87 @@ export default function ChatSidebar({
                 Recent Chats
               </h3>
               <div className="space-y-2 mb-6">
-                {filteredConversations.map((conversation) => (
+                {filteredConversations.map((conversation) => {
+                  const isGroup = conversation.kind === "group";
+                  const id = isGroup ? conversation.conversation.id : conversation.user.id;
+                  const isSelected = isGroup ? selectedConversationId === id : selectedUser?.id === id;
+                  const lastSender = isGroup && conversation.lastMessage
+                    ? conversation.conversation.members.find(member => member.user.id === conversation.lastMessage!.senderId)
+                    : undefined;
+
+                  return (
+                    <div
+                      key={id}
+                      onClick={() => isGroup
+                        ? onConversationSelect(conversation.conversation)
+                        : onUserSelect(conversation.user)}
+                      className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors group ${
+                        isSelected 
+                          ? 'bg-accent' 
+                          : 'hover:bg-accent'
+                      }`}
+                      data-testid={isGroup ? `chat-group-${id}` : `chat-user-${id}`}
+                    >
+                      {isGroup ? (
+                        <GroupAvatar conversation={conversation.conversation} size="md" />
+                      ) : (
+                        <UserAvatar user={conversation.user} size="md" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-card-foreground truncate">
+                          {isGroup ? conversation.conversation.name : conversation.user.displayName}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {lastSender && `${lastSender.user.id === currentUserId ? "You" : lastSender.user.displayName}: `}
+                          {conversation.lastMessage?.deletedAt ? "Message deleted" : conversation.lastMessage?.content || (isGroup
+                            ? `${conversation.conversation.members.length} members`
+                            : "No messages yet")}
+                        </p>
+                      </div>
+                      <div className="flex flex-col items-end space-y-1">
+                        <span className="text-xs text-muted-foreground">
+                          {formatTime(conversation.lastMessage?.createdAt || undefined)}
+                        </span>
+                        {conversation.isMuted ? (
+                          <i className="fas fa-bell-slash text-xs text-muted-foreground" data-testid={`muted-indicator-${id}`}></i>
+                        ) : conversation.unreadCount > 0 && (
+                          <div className="w-2 h-2 bg-primary rounded-full" data-testid={`unread-indicator-${id}`}></div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {/* Contacts */}
+          {availableFriends.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+                Friends
+              </h3>
+              <div className="space-y-2 mb-6">
+                {availableFriends.map((user) => (
                   <div
-                    key={conversation.user.id}
-                    onClick={() => onUserSelect(conversation.user)}
+                    key={user.id}
+                    onClick={() => onUserSelect(user)}
                     className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer transition-colors group ${
-                      selectedUser?.id === conversation.user.id 
+                      selectedUser?.id === user.id 
                         ? 'bg-accent' 
                         : 'hover:bg-accent'
                     }`}
-                    data-testid={`chat-user-${conversation.user.id}`}
+                    data-testid={`friend-${user.id}`}
                   >
-                    <UserAvatar user={conversation.user} size="md" />
+                    <UserAvatar user={user} size="md" />
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-card-foreground truncate">
-                        {conversation.user.displayName}
+                        {user.displayName}
                       </p>
                       <p className="text-xs text-muted-foreground truncate">
-                        {conversation.lastMessage?.content || "No messages yet"}
+                        {describePresence(user)}
                       </p>
                     </div>
-                    <div className="flex flex-col items-end space-y-1">
-                      <span className="text-xs text-muted-foreground">
-                        {formatTime(conversation.lastMessage?.createdAt || undefined)}
-                      </span>
-                      {conversation.unreadCount > 0 && (
-                        <div className="w-2 h-2 bg-primary rounded-full" data-testid={`unread-indicator-${conversation.user.id}`}></div>
-                      )}
-                    </div>
                   </div>
                 ))}
               </div>
@@ -124,7 +278,7 @@ export default function ChatSidebar({
           {availableUsers.length > 0 && (
             <>
               <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
-                Available Friends
+                Online Now
               </h3>
               <div className="space-y-2">
                 {availableUsers.map((user) => (
@@ -144,9 +298,22 @@ export default function ChatSidebar({
                         {user.displayName}
                       </p>
                       <p className="text-xs text-muted-foreground truncate">
-                        {user.status || "Online"}
+                        {describePresence(user)}
                       </p>
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={requestedIds.has(user.id)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        sendRequest(user.id);
+                      }}
+                      title={requestedIds.has(user.id) ? "Request sent" : "Add friend"}
+                      data-testid={`button-add-friend-${user.id}`}
+                    >
+                      <i className={`fas ${requestedIds.has(user.id) ? "fa-clock" : "fa-user-plus"} text-muted-foreground`}></i>
+                    </Button>
                   </div>
                 ))}
               </div>
@@ -177,7 +344,7 @@ export default function ChatSidebar({
                         {user.displayName}
                       </p>
                       <p className="text-xs text-muted-foreground truncate">
-                        {user.status || "Available for chat"}
+                        {describePresence(user)}
                       </p>
                     </div>
                   </div>
@@ -187,7 +354,7 @@ export default function ChatSidebar({
           )}
 
           {/* Empty State */}
-          {filteredConversations.length === 0 && availableUsers.length === 0 && !searchQuery && (
+          {filteredConversations.length === 0 && availableFriends.length === 0 && availableUsers.length === 0 && !searchQuery && (
             <div className="text-center py-8">
               <i className="fas fa-users text-4xl text-muted-foreground mb-4"></i>
               <p className="text-sm text-muted-foreground">
@@ -207,8 +374,32 @@ export default function ChatSidebar({
               </p>
             </div>
           )}
+
+          {/* Message Search Results */}
+          {searchQuery && (
+            <MessageSearchResults query={searchQuery} onResultSelect={onSearchResultSelect} />
+          )}
         </div>
       </div>
+
+      {/* New Chat Picker */}
+      <NewChatDialog
+        open={showNewChat}
+        onOpenChange={setShowNewChat}
+        onUserSelect={onUserSelect}
+      />
+
+      {/* Create Group Modal */}
+      {showCreateGroup && (
+        <CreateGroupModal
+          candidates={groupCandidates}
+          onClose={() => setShowCreateGroup(false)}
+          onCreated={(conversation) => {
+            setShowCreateGroup(false);
+            onConversationSelect(conversation);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { ConnectionStatus } from "@/hooks/useWebSocket";
+
+interface ConnectionBannerProps {
+  status: ConnectionStatus;
+  onReconnectNow: () => void;
+}
+
+// Floats under the header while the socket is down; hidden for the first connect on page load
+export default function ConnectionBanner({ status, onReconnectNow }: ConnectionBannerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (status.state !== "waiting") return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  if (status.state === "connected" || (status.state === "connecting" && status.attempt === 0)) {
+    return null;
+  }
+
+  let text: string;
+  let action: { label: string; onClick: () => void } | null = null;
+  switch (status.state) {
+    case "connecting":
+      text = "Reconnecting…";
+      break;
+    case "waiting":
+      text = `Connection lost. Reconnecting in ${Math.max(1, Math.ceil((status.retryAt - now) / 1000))}s`;
+      action = { label: "Retry now", onClick: onReconnectNow };
+      break;
+    case "offline":
+      text = "You're offline. Messages you send will go out once you're back.";
+      break;
+    case "outdated":
+      text = "ChatBook has been updated. Reload the page to keep chatting.";
+      action = { label: "Reload", onClick: () => window.location.reload() };
+      break;
+  }
+
+  return (
+    <div
+      className="fixed top-[73px] left-1/2 -translate-x-1/2 z-40 mt-2 flex items-center space-x-3 rounded-full border border-border bg-popover px-4 py-2 shadow-lg"
+      role="status"
+      data-testid="connection-banner"
+    >
+      <i className={`fas ${status.state === "outdated" ? "fa-sync-alt" : "fa-wifi"} text-sm text-muted-foreground`}></i>
+      <span className="text-sm tabular-nums">{text}</span>
+      {action && (
+        <Button size="sm" variant="secondary" className="h-7 rounded-full" onClick={action.onClick} data-testid="button-connection-action">
+          {action.label}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import UserAvatar from "@/components/UserAvatar";
+import type { PublicUser, ConversationDetails } from "@shared/schema";
+
+interface CreateGroupModalProps {
+  candidates: PublicUser[];
+  onClose: () => void;
+  onCreated: (conversation: ConversationDetails) => void;
+}
+
+export default function CreateGroupModal({ candidates, onClose, onCreated }: CreateGroupModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/chat/conversations", {
+        name: name.trim(),
+        memberIds: Array.from(memberIds),
+      });
+      return response.json() as Promise<ConversationDetails>;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+      toast({
+        title: "Group created",
+        description: `${conversation.name} is ready to chat.`,
+      });
+      onCreated(conversation);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not create group",
+        description: error.message || "Failed to create group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const canCreate = name.trim().length > 0 && memberIds.size > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        {/* Modal Header */}
+        <div className="relative p-6 border-b border-border">
+          <h2 className="text-xl font-semibold text-card-foreground text-center">New Group</h2>
+          <button
+            onClick={onClose}
+            className="absolute right-4 top-1/2 transform -translate-y-1/2 p-2 hover:bg-accent rounded-lg transition-colors"
+            data-testid="button-close-create-group"
+          >
+            <i className="fas fa-times text-muted-foreground"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <Input
+            placeholder="Group name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-group-name"
+          />
+
+          {/* Member Picker */}
+          <div>
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+              Members
+            </h3>
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No one to add yet</p>
+            ) : (
+              <div className="space-y-2">
+                {candidates.map((candidate) => (
+                  <label
+                    key={candidate.id}
+                    className="flex items-center space-x-3 p-2 rounded-lg cursor-pointer hover:bg-accent"
+                    data-testid={`group-candidate-${candidate.id}`}
+                  >
+                    <Checkbox
+                      checked={memberIds.has(candidate.id)}
+                      onCheckedChange={() => toggleMember(candidate.id)}
+                    />
+                    <UserAvatar user={candidate} size="sm" />
+                    <span className="text-sm font-medium text-card-foreground truncate">
+                      {candidate.displayName}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="space-y-3">
+            <Button
+              className="w-full"
+              disabled={!canCreate || createGroupMutation.isPending}
+              onClick={() => createGroupMutation.mutate()}
+              data-testid="button-create-group"
+            >
+              {createGroupMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Creating...
+                </>
+              ) : (
+                "Create Group"
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              className="w-full"
+              onClick={onClose}
+              data-testid="button-cancel-create-group"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
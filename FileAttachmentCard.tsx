@@ -0,0 +1,74 @@
+import { cn } from "@/lib/utils";
+import { fileExtension, mediaUrl, type MediaInfo } from "@shared/schema";
+
+interface FileAttachmentCardProps {
+  file: MediaInfo;
+  isOwnMessage?: boolean;
+}
+
+const iconsByExtension: Record<string, string> = {
+  pdf: "fa-file-pdf",
+  doc: "fa-file-word",
+  docx: "fa-file-word",
+  odt: "fa-file-word",
+  rtf: "fa-file-word",
+  xls: "fa-file-excel",
+  xlsx: "fa-file-excel",
+  ods: "fa-file-excel",
+  csv: "fa-file-csv",
+  ppt: "fa-file-powerpoint",
+  pptx: "fa-file-powerpoint",
+  odp: "fa-file-powerpoint",
+  zip: "fa-file-archive",
+  rar: "fa-file-archive",
+  "7z": "fa-file-archive",
+  tar: "fa-file-archive",
+  gz: "fa-file-archive",
+  txt: "fa-file-alt",
+  md: "fa-file-alt",
+  json: "fa-file-code",
+  xml: "fa-file-code",
+  html: "fa-file-code",
+};
+
+function fileIcon(file: MediaInfo) {
+  const byExtension = iconsByExtension[fileExtension(file.fileName ?? "")];
+  if (byExtension) return byExtension;
+  if (file.contentType.startsWith("image/")) return "fa-file-image";
+  if (file.contentType.startsWith("audio/")) return "fa-file-audio";
+  if (file.contentType.startsWith("video/")) return "fa-file-video";
+  if (file.contentType.startsWith("text/")) return "fa-file-alt";
+  return "fa-file";
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function FileAttachmentCard({ file, isOwnMessage }: FileAttachmentCardProps) {
+  const name = file.fileName || "File";
+
+  return (
+    <a
+      href={mediaUrl(file.id)}
+      download={name}
+      className={cn(
+        "flex items-center space-x-3 rounded-lg p-3 w-64 max-w-full transition-colors",
+        isOwnMessage ? "bg-primary-foreground/10 hover:bg-primary-foreground/20" : "bg-background/60 hover:bg-background"
+      )}
+      data-testid={`file-attachment-${file.id}`}
+    >
+      <i className={`fas ${fileIcon(file)} text-2xl shrink-0`}></i>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate" title={name}>{name}</p>
+        <p className="text-xs opacity-75">
+          {formatFileSize(file.size)}
+          {fileExtension(name) && ` · ${fileExtension(name).toUpperCase()}`}
+        </p>
+      </div>
+      <i className="fas fa-download text-sm opacity-75 shrink-0"></i>
+    </a>
+  );
+}
@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils";
+import type { Conversation } from "@shared/schema";
+
+interface GroupAvatarProps {
+  conversation: Pick<Conversation, "id" | "name" | "avatar">;
+  size?: "sm" | "md" | "lg" | "xl";
+  className?: string;
+}
+
+const sizeClasses = {
+  sm: "w-8 h-8",
+  md: "w-10 h-10",
+  lg: "w-12 h-12",
+  xl: "w-24 h-24",
+};
+
+export default function GroupAvatar({
+  conversation,
+  size = "md",
+  className,
+}: GroupAvatarProps) {
+  const avatarUrl = conversation.avatar || `https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(conversation.name)}`;
+
+  return (
+    <div className={cn("relative", className)}>
+      <img
+        src={avatarUrl}
+        alt={`${conversation.name} group avatar`}
+        className={cn(
+          "rounded-full border-2 border-border object-cover",
+          sizeClasses[size]
+        )}
+        data-testid={`group-avatar-${conversation.id}`}
+      />
+    </div>
+  );
+}
@@ -1,41 +1,186 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import UserAvatar from "@/components/UserAvatar";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import UserAvatar, { presenceClasses, presenceLabels } from "@/components/UserAvatar";
+import GroupAvatar from "@/components/GroupAvatar";
+import AttachmentImage from "@/components/AttachmentImage";
+import FileAttachmentCard from "@/components/FileAttachmentCard";
+import VoiceRecorderButton from "@/components/VoiceRecorderButton";
+import VoiceMessagePlayer from "@/components/VoiceMessagePlayer";
+import VideoAttachmentPlayer from "@/components/VideoAttachmentPlayer";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Send, Camera, Video, Mic } from "lucide-react";
-import type { PublicUser, Message } from "@shared/schema";
+import { typingKey } from "@/hooks/useWebSocket";
+import { usePresence } from "@/hooks/usePresence";
+import type { VoiceRecording } from "@/hooks/useVoiceRecorder";
+import type { OutboxMessage } from "@/lib/outbox";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { readVideoDetails } from "@/lib/videoPoster";
+import { Send, Camera, Video, Paperclip } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DEFAULT_BLOCKED_EXTENSIONS,
+  imageMimeTypes,
+  videoMimeTypes,
+  uploadLimitFor,
+  fileExtension,
+  isImageAttachment,
+  isVoiceAttachment,
+  messageStatus,
+  visiblePresence,
+  type PublicUser,
+  type Message,
+  type ChatMessage,
+  type MessageReaction,
+  type ConversationDetails,
+  type CallKind,
+  type MessageType,
+} from "@shared/schema";
 
 interface MessageAreaProps {
   selectedUser: PublicUser | null;
-  messages: Message[];
+  selectedConversation: ConversationDetails | null;
+  messages: ChatMessage[];
+  // Sent from this browser but not yet confirmed by the server
+  pendingMessages: OutboxMessage[];
+  onRetryMessage: (clientId: string) => void;
+  onDiscardMessage: (clientId: string) => void;
+  hasOlderMessages: boolean;
+  hasNewerMessages: boolean;
+  onLoadOlderMessages: () => Promise<number>;
+  onLoadNewerMessages: () => Promise<number>;
+  focusMessageId: string | null;
+  onFocusHandled: () => void;
   typingUsers: Set<string>;
-  onSendMessage: (content: string, messageType?: string, imageUrl?: string) => void;
+  onSendMessage: (content: string, messageType?: MessageType, mediaId?: string, replyToId?: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onDeleteMessage: (messageId: string) => void;
+  onToggleReaction: (messageId: string, emoji: string) => void;
   onTyping: (isTyping: boolean) => void;
+  isMuted: boolean;
+  onStartCall: (kind: CallKind) => void;
+  isInCall: boolean;
   currentUserId: string;
 }
 
+// One tick when sent, two when it reached the other side, coloured once read
+function MessageStatusIcon({ message }: { message: ChatMessage }) {
+  const status = messageStatus(message);
+  const title = status === "read"
+    ? `Read ${new Date(message.readAt!).toLocaleString()}`
+    : status === "delivered" ? "Delivered" : "Sent";
+  return (
+    <i
+      className={`fas ${status === "sent" ? "fa-check" : "fa-check-double"} text-xs ${status === "read" ? "text-primary" : "text-muted-foreground"}`}
+      title={title}
+      data-testid={`message-status-${message.id}`}
+    ></i>
+  );
+}
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+// Groups reactions by emoji, keeping the order in which each emoji was first used
+function summarizeReactions(reactions: MessageReaction[] = []) {
+  const userIdsByEmoji = new Map<string, string[]>();
+  reactions.forEach((reaction) => {
+    userIdsByEmoji.set(reaction.emoji, [...(userIdsByEmoji.get(reaction.emoji) ?? []), reaction.userId]);
+  });
+  return Array.from(userIdsByEmoji, ([emoji, userIds]) => ({ emoji, userIds }));
+}
+
 export default function MessageArea({
   selectedUser,
+  selectedConversation,
   messages,
+  pendingMessages,
+  onRetryMessage,
+  onDiscardMessage,
+  hasOlderMessages,
+  hasNewerMessages,
+  onLoadOlderMessages,
+  onLoadNewerMessages,
+  focusMessageId,
+  onFocusHandled,
   typingUsers,
   onSendMessage,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
   onTyping,
+  isMuted,
+  onStartCall,
+  isInCall,
   currentUserId,
 }: MessageAreaProps) {
   const [messageContent, setMessageContent] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the list to keep fixed while older messages load
+  const scrollAnchorRef = useRef<number | null>(null);
+  // Set while newer messages are appended below the reader
+  const keepScrollRef = useRef(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { presenceOf } = usePresence();
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
+  // Auto-scroll to bottom when new messages arrive, but keep the reader's
+  // place when older messages are prepended above them
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (scrollAnchorRef.current !== null && container) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+      return;
+    }
+    if (keepScrollRef.current) {
+      keepScrollRef.current = false;
+      return;
+    }
+    // Don't jump away from history the reader opened from search
+    if (hasNewerMessages) return;
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, pendingMessages.length]);
+
+  const handleMessagesScroll = async () => {
+    const container = messagesContainerRef.current;
+    if (!container || isLoadingPage) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    if (container.scrollTop <= 100 && hasOlderMessages) {
+      setIsLoadingPage(true);
+      scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      const loadedCount = await onLoadOlderMessages();
+      if (loadedCount === 0) {
+        scrollAnchorRef.current = null;
+      }
+      setIsLoadingPage(false);
+    } else if (distanceFromBottom <= 100 && hasNewerMessages) {
+      setIsLoadingPage(true);
+      keepScrollRef.current = true;
+      const loadedCount = await onLoadNewerMessages();
+      if (loadedCount === 0) {
+        keepScrollRef.current = false;
+      }
+      setIsLoadingPage(false);
+    }
+  };
 
   // Handle typing indicators
   useEffect(() => {
@@ -58,72 +203,182 @@ export default function MessageArea({
     };
   }, [isTyping, onTyping]);
 
+  const hasChat = !!selectedUser || !!selectedConversation;
+
   const handleSendMessage = () => {
-    if (messageContent.trim() && selectedUser) {
-      onSendMessage(messageContent.trim(), "text");
+    if (editingMessage) {
+      if (messageContent.trim() && messageContent.trim() !== editingMessage.content) {
+        onEditMessage(editingMessage.id, messageContent.trim());
+      }
+      cancelEditing();
+      return;
+    }
+
+    if (messageContent.trim() && hasChat) {
+      onSendMessage(messageContent.trim(), "text", undefined, replyingTo?.id);
       setMessageContent("");
+      setReplyingTo(null);
       setIsTyping(false);
       onTyping(false);
     }
   };
 
-  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const startEditing = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageContent(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageContent("");
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) {
+      cancelEditing();
+    }
+    setReplyingTo(message);
+  };
+
+  // Jump to a quoted message and briefly highlight it
+  const scrollToMessage = (messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) {
+      toast({
+        title: "Message not loaded",
+        description: "Scroll up to load older messages first.",
+      });
+      return;
+    }
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(null), 1500);
+  };
+
+  // Scroll to a message opened from search once it has rendered
+  useEffect(() => {
+    if (focusMessageId && messages.some(message => message.id === focusMessageId)) {
+      scrollToMessage(focusMessageId);
+      onFocusHandled();
+    }
+  }, [focusMessageId, messages]);
+
+  const handleDeleteMessage = (message: Message) => {
+    if (window.confirm("Delete this message for everyone?")) {
+      onDeleteMessage(message.id);
+      if (editingMessage?.id === message.id) {
+        cancelEditing();
+      }
+    }
+  };
+
+  // Images, videos and other files share one upload path; the server decides which one it got
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || !selectedUser) return;
+    // Reset file input so the same file can be picked again
+    event.target.value = "";
+    if (!file || !hasChat) return;
+
+    if (DEFAULT_BLOCKED_EXTENSIONS.includes(fileExtension(file.name))) {
+      toast({
+        title: "File type not allowed",
+        description: `.${fileExtension(file.name)} files can't be sent`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    if (file.size > 5 * 1024 * 1024) { // 5MB limit
+    const limit = uploadLimitFor(file.type || "application/octet-stream");
+    if (file.size > limit) {
       toast({
         title: "File too large",
-        description: "Please select an image smaller than 5MB",
+        description: `Please select a file smaller than ${limit / (1024 * 1024)}MB`,
         variant: "destructive",
       });
       return;
     }
 
+    const replyToId = replyingTo?.id;
     setIsUploading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const imageData = e.target?.result as string;
-        
-        try {
-          const response = await apiRequest("POST", "/api/upload/image", { imageData });
-          const { imageUrl } = await response.json();
-          
-          onSendMessage("📷 Image", "image", imageUrl);
-          toast({
-            title: "Image sent",
-            description: "Your image has been sent successfully",
-          });
-        } catch (error) {
-          toast({
-            title: "Upload failed",
-            description: "Failed to send image. Please try again.",
-            variant: "destructive",
-          });
+      const formData = new FormData();
+      if ((videoMimeTypes as readonly string[]).includes(file.type)) {
+        // The poster frame goes up first so the video can point at it
+        const { poster, ...details } = await readVideoDetails(file);
+        if (poster) {
+          const posterData = new FormData();
+          posterData.append("file", poster);
+          const posterResponse = await apiRequest("POST", "/api/media", posterData);
+          formData.append("posterMediaId", (await posterResponse.json()).id);
         }
-        setIsUploading(false);
-      };
-      reader.readAsDataURL(file);
-    } catch (error) {
-      setIsUploading(false);
+        for (const [name, value] of Object.entries(details)) {
+          if (value !== undefined) formData.append(name, String(value));
+        }
+      }
+      formData.append("file", file);
+      const response = await apiRequest("POST", "/api/media", formData);
+      const { id, contentType } = await response.json();
+
+      const kind = (videoMimeTypes as readonly string[]).includes(contentType)
+        ? "video"
+        : (imageMimeTypes as readonly string[]).includes(contentType) ? "image" : "file";
+      if (kind === "video") {
+        onSendMessage("🎬 Video", "video", id, replyToId);
+      } else if (kind === "image") {
+        onSendMessage("📷 Image", "image", id, replyToId);
+      } else {
+        onSendMessage(file.name, "file", id, replyToId);
+      }
+      setReplyingTo(null);
+      toast({
+        title: kind === "video" ? "Video sent" : kind === "image" ? "Image sent" : "File sent",
+        description: kind === "file" ? `${file.name} has been sent` : `Your ${kind} has been sent successfully`,
+      });
+    } catch (error: any) {
       toast({
         title: "Upload failed",
-        description: "Failed to process image. Please try again.",
+        description: error.message || "Failed to send file. Please try again.",
         variant: "destructive",
       });
     }
-    
-    // Reset file input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+    setIsUploading(false);
+  };
+
+  const handleVoiceRecorded = async ({ file, durationMs, waveform }: VoiceRecording) => {
+    if (!hasChat) return;
+
+    const replyToId = replyingTo?.id;
+    setIsUploading(true);
+    try {
+      // Duration and waveform go first so the server has them before the file arrives
+      const formData = new FormData();
+      formData.append("durationMs", String(durationMs));
+      formData.append("waveform", JSON.stringify(waveform));
+      formData.append("file", file);
+      const response = await apiRequest("POST", "/api/media", formData);
+      const { id } = await response.json();
+
+      onSendMessage("🎤 Voice message", "audio", id, replyToId);
+      setReplyingTo(null);
+    } catch (error: any) {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to send voice message. Please try again.",
+        variant: "destructive",
+      });
     }
+    setIsUploading(false);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
+    } else if (e.key === "Escape" && editingMessage) {
+      cancelEditing();
+    } else if (e.key === "Escape" && replyingTo) {
+      setReplyingTo(null);
     }
   };
 
@@ -145,7 +400,60 @@ export default function MessageArea({
     });
   };
 
-  if (!selectedUser) {
+  const { data: blockedUsers = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users/blocked"],
+  });
+  const isBlocked = !!selectedUser && blockedUsers.some(user => user.id === selectedUser.id);
+
+  const handleToggleMute = async () => {
+    try {
+      await apiRequest("PUT", "/api/chat/mutes", selectedConversation
+        ? { conversationId: selectedConversation.id, muted: !isMuted }
+        : { receiverId: selectedUser!.id, muted: !isMuted });
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update mute setting",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    if (!selectedUser) return;
+    if (!isBlocked && !window.confirm(`Block ${selectedUser.displayName}? They won't be able to message you or see when you're online.`)) {
+      return;
+    }
+    try {
+      await apiRequest(isBlocked ? "DELETE" : "POST", `/api/users/${selectedUser.id}/block`);
+      queryClient.invalidateQueries({ queryKey: ["/api/users/blocked"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: isBlocked ? "Failed to unblock user" : "Failed to block user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLeaveGroup = async () => {
+    if (!selectedConversation) return;
+    try {
+      await apiRequest("DELETE", `/api/chat/conversations/${selectedConversation.id}/members/${currentUserId}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to leave group",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!selectedConversation && !selectedUser) {
     return (
       <div className="flex-1 flex items-center justify-center bg-muted/20">
         <div className="text-center">
@@ -161,46 +469,160 @@ export default function MessageArea({
     );
   }
 
+  // Group messages come from many senders, direct messages from the selected user
+  const membersById = new Map(selectedConversation?.members.map(member => [member.user.id, member.user]) ?? []);
+  const senderFor = (senderId: string): PublicUser | undefined =>
+    selectedConversation ? membersById.get(senderId) : selectedUser ?? undefined;
+  const ownAvatarUser = selectedConversation
+    ? membersById.get(currentUserId)
+    : selectedUser && { ...selectedUser, id: currentUserId };
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+  const senderName = (senderId: string) =>
+    senderId === currentUserId ? "You" : senderFor(senderId)?.displayName ?? "Former member";
+  const chatName = selectedConversation?.name ?? selectedUser?.displayName;
+  const selectedUserPresence = selectedUser && presenceOf(selectedUser);
+  const selectedUserVisibility = selectedUserPresence ? visiblePresence(selectedUserPresence) : "offline";
+  const selectedUserStatus = [selectedUserPresence?.statusEmoji, selectedUserPresence?.status].filter(Boolean).join(" ");
+  const onlineMemberCount = selectedConversation?.members.filter(
+    member => member.user.id !== currentUserId && visiblePresence(presenceOf(member.user)) !== "offline"
+  ).length ?? 0;
+  const typingMembers = selectedConversation
+    ? selectedConversation.members
+        .map(member => member.user)
+        .filter(member => member.id !== currentUserId && typingUsers.has(typingKey(member.id, selectedConversation.id)))
+    : selectedUser && typingUsers.has(selectedUser.id) ? [selectedUser] : [];
+
+  const renderQuote = (message?: Message) => (
+    message ? (
+      <>
+        <span className="block text-xs font-semibold">{senderName(message.senderId)}</span>
+        <span className="block text-xs truncate">
+          {message.deletedAt ? "Message deleted" : message.content}
+        </span>
+      </>
+    ) : (
+      <span className="block text-xs italic">Earlier message</span>
+    )
+  );
+
   return (
     <div className="flex-1 flex flex-col">
       {/* Chat Header */}
       <div className="bg-card border-b border-border px-6 py-4 flex items-center justify-between">
-        <div className="flex items-center space-x-4">
-          <UserAvatar user={selectedUser} size="lg" />
-          <div>
-            <h2 className="text-lg font-semibold text-card-foreground" data-testid={`chat-header-${selectedUser.id}`}>
-              {selectedUser.displayName}
-            </h2>
-            <p className="text-sm text-muted-foreground">
-              {selectedUser.isOnline ? (
-                <span className="flex items-center space-x-1">
-                  <div className="w-2 h-2 bg-success rounded-full"></div>
-                  <span>Active now</span>
-                </span>
-              ) : (
-                selectedUser.lastSeen ? `Last seen ${formatMessageTime(selectedUser.lastSeen)}` : "Offline"
+        {selectedConversation ? (
+          <div className="flex items-center space-x-4">
+            <GroupAvatar conversation={selectedConversation} size="lg" />
+            <div>
+              <h2 className="text-lg font-semibold text-card-foreground" data-testid={`chat-header-${selectedConversation.id}`}>
+                {selectedConversation.name}
+              </h2>
+              <p className="text-sm text-muted-foreground truncate">
+                {selectedConversation.members.length} members
+                {onlineMemberCount > 0 && `, ${onlineMemberCount} online`}
+              </p>
+            </div>
+          </div>
+        ) : selectedUser ? (
+          <div className="flex items-center space-x-4">
+            <UserAvatar user={selectedUser} size="lg" />
+            <div>
+              <h2 className="text-lg font-semibold text-card-foreground" data-testid={`chat-header-${selectedUser.id}`}>
+                {selectedUser.displayName}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {selectedUserVisibility !== "offline" ? (
+                  <span className="flex items-center space-x-1">
+                    <div className={`w-2 h-2 rounded-full ${presenceClasses[selectedUserVisibility]}`}></div>
+                    <span>{selectedUserVisibility === "online" ? "Active now" : presenceLabels[selectedUserVisibility]}</span>
+                  </span>
+                ) : (
+                  selectedUserPresence?.lastSeen ? `Last seen ${formatMessageTime(selectedUserPresence.lastSeen)}` : "Offline"
+                )}
+              </p>
+              {selectedUserStatus && (
+                <p className="text-xs text-muted-foreground truncate" data-testid="chat-header-status">
+                  {selectedUserStatus}
+                </p>
               )}
-            </p>
+            </div>
           </div>
-        </div>
+        ) : null}
         
         <div className="flex items-center space-x-2">
-          <Button variant="ghost" size="sm" data-testid="button-voice-call">
-            <i className="fas fa-phone text-muted-foreground"></i>
-          </Button>
-          <Button variant="ghost" size="sm" data-testid="button-video-call">
-            <i className="fas fa-video text-muted-foreground"></i>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggleMute}
+            title={isMuted ? "Unmute" : "Mute"}
+            data-testid="button-toggle-mute"
+          >
+            <i className={`fas ${isMuted ? "fa-bell-slash" : "fa-bell"} text-muted-foreground`}></i>
           </Button>
+          {!selectedConversation && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleToggleBlock}
+              title={isBlocked ? "Unblock" : "Block"}
+              data-testid="button-toggle-block"
+            >
+              <i className={`fas fa-ban ${isBlocked ? "text-destructive" : "text-muted-foreground"}`}></i>
+            </Button>
+          )}
+          {selectedConversation && (
+            <Button variant="ghost" size="sm" onClick={handleLeaveGroup} title="Leave Group" data-testid="button-leave-group">
+              <i className="fas fa-sign-out-alt text-muted-foreground"></i>
+            </Button>
+          )}
+          {!selectedConversation && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onStartCall("audio")}
+                disabled={isInCall || isBlocked}
+                title="Voice Call"
+                data-testid="button-voice-call"
+              >
+                <i className="fas fa-phone text-muted-foreground"></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onStartCall("video")}
+                disabled={isInCall || isBlocked}
+                title="Video Call"
+                data-testid="button-video-call"
+              >
+                <i className="fas fa-video text-muted-foreground"></i>
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4" data-testid="messages-container">
-        {messages.length === 0 ? (
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto p-6 space-y-4"
+        data-testid="messages-container"
+      >
+        {isLoadingPage && (
+          <div className="flex justify-center" data-testid="loading-messages">
+            <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+          </div>
+        )}
+
+        {messages.length === 0 && pendingMessages.length === 0 ? (
           <div className="text-center py-8">
-            <UserAvatar user={selectedUser} size="xl" className="mx-auto mb-4" />
+            {selectedConversation ? (
+              <GroupAvatar conversation={selectedConversation} size="xl" className="mx-auto mb-4 w-fit" />
+            ) : (
+              <UserAvatar user={selectedUser!} size="xl" className="mx-auto mb-4" />
+            )}
             <h3 className="text-lg font-semibold text-muted-foreground mb-2">
-              Start a conversation with {selectedUser.displayName}
+              Start a conversation with {chatName}
             </h3>
             <p className="text-sm text-muted-foreground">
               Send a message to begin chatting
@@ -209,61 +631,239 @@ export default function MessageArea({
         ) : (
           messages.map((message) => {
             const isOwnMessage = message.senderId === currentUserId;
+            const sender = senderFor(message.senderId);
             
             return (
               <div
                 key={message.id}
                 className={`flex items-start space-x-3 ${isOwnMessage ? 'justify-end' : ''}`}
+                id={`message-${message.id}`}
                 data-testid={`message-${message.id}`}
               >
-                {!isOwnMessage && (
-                  <UserAvatar user={selectedUser} size="sm" />
+                {!isOwnMessage && sender && (
+                  <UserAvatar user={sender} size="sm" />
                 )}
                 
                 <div className={`flex-1 flex flex-col ${isOwnMessage ? 'items-end' : ''}`}>
-                  <div
-                    className={`rounded-2xl px-4 py-3 max-w-md ${
-                      isOwnMessage
-                        ? 'bg-primary text-primary-foreground rounded-tr-sm'
-                        : 'bg-secondary text-secondary-foreground rounded-tl-sm'
-                    }`}
-                  >
-                    {message.messageType === 'image' && message.imageUrl ? (
-                      <div className="space-y-2">
-                        <img 
-                          src={message.imageUrl} 
-                          alt="Shared image" 
-                          className="max-w-64 max-h-64 rounded-lg object-cover cursor-pointer"
-                          onClick={() => message.imageUrl && window.open(message.imageUrl, '_blank')}
-                        />
-                        <p className="text-xs opacity-75">{message.content}</p>
+                  {selectedConversation && !isOwnMessage && (
+                    <span className="text-xs font-medium text-muted-foreground mb-1">
+                      {sender?.displayName ?? "Former member"}
+                    </span>
+                  )}
+                  <ContextMenu>
+                    <ContextMenuTrigger asChild disabled={!!message.deletedAt}>
+                      <div
+                        className={`rounded-2xl px-4 py-3 max-w-md transition-shadow ${
+                          message.deletedAt
+                            ? 'border border-border text-muted-foreground'
+                            : isOwnMessage
+                            ? 'bg-primary text-primary-foreground rounded-tr-sm'
+                            : 'bg-secondary text-secondary-foreground rounded-tl-sm'
+                        } ${highlightedMessageId === message.id ? 'ring-2 ring-ring' : ''}`}
+                      >
+                        {/* Quoted Parent Message */}
+                        {message.replyToId && !message.deletedAt && (
+                          <button
+                            onClick={() => scrollToMessage(message.replyToId!)}
+                            className="block w-full text-left mb-2 pl-2 border-l-4 border-current opacity-75 hover:opacity-100"
+                            data-testid={`reply-quote-${message.id}`}
+                          >
+                            {renderQuote(messagesById.get(message.replyToId))}
+                          </button>
+                        )}
+
+                        {message.deletedAt ? (
+                          <p className="text-sm italic" data-testid={`message-deleted-${message.id}`}>
+                            <i className="fas fa-ban mr-2"></i>
+                            This message was deleted
+                          </p>
+                        ) : message.messageType === 'image' && isImageAttachment(message.attachment) ? (
+                          <div className="space-y-2">
+                            <AttachmentImage
+                              attachment={message.attachment}
+                              alt="Shared image"
+                              onClick={() => message.imageUrl && window.open(message.imageUrl, '_blank')}
+                            />
+                            <p className="text-xs opacity-75">{message.content}</p>
+                          </div>
+                        ) : message.messageType === 'call' ? (
+                          <p className="text-sm flex items-center" data-testid={`call-log-${message.id}`}>
+                            <i className={`fas ${
+                              message.call?.status === "ended"
+                                ? message.call.kind === "video" ? "fa-video" : "fa-phone"
+                                : "fa-phone-slash"
+                            } mr-2`}></i>
+                            {message.content}
+                          </p>
+                        ) : message.messageType === 'audio' && isVoiceAttachment(message.attachment) ? (
+                          <VoiceMessagePlayer attachment={message.attachment} isOwnMessage={isOwnMessage} />
+                        ) : message.messageType === 'video' && message.mediaId ? (
+                          <VideoAttachmentPlayer mediaId={message.mediaId} attachment={message.attachment} />
+                        ) : message.messageType === 'file' && message.file ? (
+                          <FileAttachmentCard file={message.file} isOwnMessage={isOwnMessage} />
+                        ) : message.messageType === 'image' && message.imageUrl ? (
+                          <div className="space-y-2">
+                            <img 
+                              src={message.imageUrl} 
+                              alt="Shared image" 
+                              className="max-w-64 max-h-64 rounded-lg object-cover cursor-pointer"
+                              onClick={() => message.imageUrl && window.open(message.imageUrl, '_blank')}
+                            />
+                            <p className="text-xs opacity-75">{message.content}</p>
+                          </div>
+                        ) : (
+                          <p className="text-sm">{message.content}</p>
+                        )}
                       </div>
-                    ) : (
-                      <p className="text-sm">{message.content}</p>
-                    )}
-                  </div>
+                    </ContextMenuTrigger>
+
+                    {/* Message Actions */}
+                    <ContextMenuContent>
+                      <div className="flex">
+                        {QUICK_REACTIONS.map((emoji) => (
+                          <ContextMenuItem
+                            key={emoji}
+                            onSelect={() => onToggleReaction(message.id, emoji)}
+                            className="px-2 text-lg"
+                            data-testid={`menu-react-${message.id}-${emoji}`}
+                          >
+                            {emoji}
+                          </ContextMenuItem>
+                        ))}
+                      </div>
+                      <ContextMenuSeparator />
+                      <ContextMenuItem onSelect={() => startReply(message)} data-testid={`menu-reply-${message.id}`}>
+                        <i className="fas fa-reply mr-2 text-muted-foreground"></i>
+                        Reply
+                      </ContextMenuItem>
+                      {isOwnMessage && (
+                        <>
+                          <ContextMenuSeparator />
+                          <ContextMenuItem onSelect={() => startEditing(message)} data-testid={`menu-edit-${message.id}`}>
+                            <i className="fas fa-pen mr-2 text-muted-foreground"></i>
+                            Edit
+                          </ContextMenuItem>
+                          <ContextMenuItem
+                            onSelect={() => handleDeleteMessage(message)}
+                            className="text-destructive"
+                            data-testid={`menu-delete-${message.id}`}
+                          >
+                            <i className="fas fa-trash mr-2"></i>
+                            Delete
+                          </ContextMenuItem>
+                        </>
+                      )}
+                    </ContextMenuContent>
+                  </ContextMenu>
+
+                  {/* Reactions */}
+                  {!message.deletedAt && (message.reactions?.length ?? 0) > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1" data-testid={`reactions-${message.id}`}>
+                      {summarizeReactions(message.reactions).map(({ emoji, userIds }) => (
+                        <Tooltip key={emoji}>
+                          <TooltipTrigger asChild>
+                            <button
+                              onClick={() => onToggleReaction(message.id, emoji)}
+                              className={`flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                                userIds.includes(currentUserId)
+                                  ? 'border-primary bg-primary/10'
+                                  : 'border-border bg-card hover:bg-accent'
+                              }`}
+                              data-testid={`reaction-${message.id}-${emoji}`}
+                            >
+                              <span>{emoji}</span>
+                              <span>{userIds.length}</span>
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {userIds.map(senderName).join(", ")}
+                          </TooltipContent>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="flex items-center space-x-2 mt-1">
                     <span className="text-xs text-muted-foreground">
                       {formatMessageTime(message.createdAt!)}
                     </span>
-                    {isOwnMessage && (
-                      <i className={`fas fa-check-double text-xs ${message.isRead ? 'text-primary' : 'text-muted-foreground'}`}></i>
+                    {message.editedAt && !message.deletedAt && (
+                      <span className="text-xs text-muted-foreground" title={new Date(message.editedAt).toLocaleString()}>
+                        edited
+                      </span>
+                    )}
+                    {isOwnMessage && !message.conversationId && !message.deletedAt && (
+                      <MessageStatusIcon message={message} />
+                    )}
+                    {isOwnMessage && message.conversationId && (
+                      <i className="fas fa-check text-xs text-muted-foreground" title="Sent"></i>
                     )}
                   </div>
                 </div>
                 
-                {isOwnMessage && (
-                  <UserAvatar user={{ ...selectedUser, id: currentUserId }} size="sm" />
+                {isOwnMessage && ownAvatarUser && (
+                  <UserAvatar user={ownAvatarUser} size="sm" />
                 )}
               </div>
             );
           })
         )}
 
+        {/* Unconfirmed Messages */}
+        {pendingMessages.map((pending) => (
+          <div
+            key={pending.clientId}
+            className="flex items-start space-x-3 justify-end"
+            data-testid={`pending-message-${pending.clientId}`}
+          >
+            <div className="flex-1 flex flex-col items-end">
+              <div
+                className={`rounded-2xl rounded-tr-sm px-4 py-3 max-w-md bg-primary text-primary-foreground ${
+                  pending.status === "sending" ? "opacity-70" : "opacity-50"
+                }`}
+              >
+                <p className="text-sm">{pending.content}</p>
+              </div>
+              <div className="flex items-center space-x-2 mt-1">
+                {pending.status === "sending" ? (
+                  <span className="text-xs text-muted-foreground">
+                    <i className="far fa-clock mr-1"></i>
+                    Sending…
+                  </span>
+                ) : (
+                  <>
+                    <span className="text-xs text-destructive" title={pending.error}>
+                      <i className="fas fa-exclamation-circle mr-1"></i>
+                      Not sent
+                    </span>
+                    <button
+                      onClick={() => onRetryMessage(pending.clientId)}
+                      className="text-xs text-primary hover:underline"
+                      data-testid={`button-retry-${pending.clientId}`}
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => onDiscardMessage(pending.clientId)}
+                      className="text-xs text-muted-foreground hover:underline"
+                      data-testid={`button-discard-${pending.clientId}`}
+                    >
+                      Discard
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {ownAvatarUser && (
+              <UserAvatar user={ownAvatarUser} size="sm" />
+            )}
+          </div>
+        ))}
+
         {/* Typing Indicator */}
-        {typingUsers.has(selectedUser.id) && (
-          <div className="flex items-start space-x-3" data-testid="typing-indicator">
-            <UserAvatar user={selectedUser} size="sm" />
+        {typingMembers.map((typingUser) => (
+          <div key={typingUser.id} className="flex items-start space-x-3" data-testid="typing-indicator">
+            <UserAvatar user={typingUser} size="sm" />
             <div className="bg-secondary rounded-2xl rounded-tl-sm px-4 py-3">
               <div className="flex space-x-1">
                 <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse"></div>
@@ -272,13 +872,34 @@ export default function MessageArea({
               </div>
             </div>
           </div>
-        )}
+        ))}
 
         <div ref={messagesEndRef} />
       </div>
 
       {/* Message Input - Mobile Optimized */}
       <div className="bg-card border-t border-border px-3 py-3">
+        {replyingTo && (
+          <div className="flex items-center justify-between mb-2 px-2 text-sm text-muted-foreground" data-testid="replying-banner">
+            <div className="min-w-0 pl-2 border-l-4 border-primary">
+              {renderQuote(replyingTo)}
+            </div>
+            <button onClick={() => setReplyingTo(null)} className="p-1 hover:text-foreground" data-testid="button-cancel-reply">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        )}
+        {editingMessage && (
+          <div className="flex items-center justify-between mb-2 px-2 text-sm text-muted-foreground" data-testid="editing-banner">
+            <span>
+              <i className="fas fa-pen mr-2"></i>
+              Editing message
+            </span>
+            <button onClick={cancelEditing} className="p-1 hover:text-foreground" data-testid="button-cancel-edit">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        )}
         <div className="flex items-end space-x-2">
           {/* Media Upload Buttons */}
           <div className="flex space-x-1">
@@ -286,8 +907,21 @@ export default function MessageArea({
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
-              onChange={handleImageUpload}
+              accept={imageMimeTypes.join(",")}
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <input
+              ref={attachmentInputRef}
+              type="file"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <input
+              ref={videoInputRef}
+              type="file"
+              accept={videoMimeTypes.join(",")}
+              onChange={handleFileUpload}
               className="hidden"
             />
             <Button 
@@ -305,12 +939,26 @@ export default function MessageArea({
                 <Camera className="h-5 w-5 text-blue-600 dark:text-blue-400" />
               )}
             </Button>
+
+            {/* File Upload */}
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => attachmentInputRef.current?.click()}
+              disabled={isUploading}
+              className="p-2 h-10 w-10 rounded-full bg-slate-50 hover:bg-slate-100 dark:bg-slate-900/20 dark:hover:bg-slate-900/40 border-0 chat-mobile-button media-button"
+              data-testid="button-attach-file"
+              title="Send File"
+            >
+              <Paperclip className="h-5 w-5 text-slate-600 dark:text-slate-400" />
+            </Button>
             
             {/* Video Upload */}
             <Button 
               variant="ghost" 
               size="sm" 
-              onClick={() => alert('Video messages coming soon! 🎥')}
+              onClick={() => videoInputRef.current?.click()}
+              disabled={isUploading}
               className="p-2 h-10 w-10 rounded-full bg-purple-50 hover:bg-purple-100 dark:bg-purple-900/20 dark:hover:bg-purple-900/40 border-0 chat-mobile-button media-button"
               data-testid="button-attach-video"
               title="Send Video"
@@ -319,16 +967,7 @@ export default function MessageArea({
             </Button>
             
             {/* Voice Message */}
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={() => alert('Voice messages coming soon! 🎤')}
-              className="p-2 h-10 w-10 rounded-full bg-green-50 hover:bg-green-100 dark:bg-green-900/20 dark:hover:bg-green-900/40 border-0 chat-mobile-button media-button"
-              data-testid="button-voice-message"
-              title="Voice Message"
-            >
-              <Mic className="h-5 w-5 text-green-600 dark:text-green-400" />
-            </Button>
+            <VoiceRecorderButton disabled={isUploading || !hasChat} onRecorded={handleVoiceRecorded} />
           </div>
           
           {/* Message Input Area */}
@@ -354,7 +993,7 @@ export default function MessageArea({
             >
               <div className="flex items-center space-x-2">
                 <Send className="h-4 w-4" />
-                <span className="text-sm font-bold">Send</span>
+                <span className="text-sm font-bold">{editingMessage ? "Save" : "Send"}</span>
               </div>
             </Button>
           </div>
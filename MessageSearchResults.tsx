@@ -0,0 +1,89 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import UserAvatar from "@/components/UserAvatar";
+import GroupAvatar from "@/components/GroupAvatar";
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type MessageSearchResult,
+} from "@shared/schema";
+
+interface MessageSearchResultsProps {
+  query: string;
+  onResultSelect: (result: MessageSearchResult) => void;
+}
+
+// Splits a snippet on the highlight markers; odd parts are the matches
+function renderSnippet(snippet: string) {
+  return snippet
+    .split(new RegExp(`${SEARCH_HIGHLIGHT_START}|${SEARCH_HIGHLIGHT_END}`))
+    .map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm">{part}</mark>
+      ) : (
+        <span key={index}>{part}</span>
+      )
+    );
+}
+
+export default function MessageSearchResults({ query, onResultSelect }: MessageSearchResultsProps) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  // Wait for the user to stop typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<MessageSearchResult[]>({
+    queryKey: [`/api/chat/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length >= 2,
+  });
+
+  if (debouncedQuery.length < 2) return null;
+
+  return (
+    <>
+      <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3 mt-6">
+        Messages
+      </h3>
+      {isFetching && results.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Searching...</p>
+      ) : results.length === 0 ? (
+        <p className="text-xs text-muted-foreground" data-testid="search-no-messages">
+          No messages match "{debouncedQuery}"
+        </p>
+      ) : (
+        <div className="space-y-2" data-testid="message-search-results">
+          {results.map((result) => (
+            <div
+              key={result.message.id}
+              onClick={() => onResultSelect(result)}
+              className="flex items-start space-x-3 p-3 rounded-lg cursor-pointer transition-colors hover:bg-accent"
+              data-testid={`search-result-${result.message.id}`}
+            >
+              {result.chat.kind === "group" ? (
+                <GroupAvatar conversation={result.chat.conversation} size="sm" />
+              ) : (
+                <UserAvatar user={result.chat.user} size="sm" showOnlineStatus={false} />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-card-foreground truncate">
+                    {result.chat.kind === "group" ? result.chat.conversation.name : result.chat.user.displayName}
+                  </p>
+                  <span className="text-xs text-muted-foreground ml-2 shrink-0">
+                    {result.message.createdAt && new Date(result.message.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {renderSnippet(result.snippet)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import UserAvatar from "@/components/UserAvatar";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_SEARCH_PAGE_SIZE, type PublicUser } from "@shared/schema";
+
+interface NewChatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUserSelect: (user: PublicUser) => void;
+}
+
+export default function NewChatDialog({ open, onOpenChange, onUserSelect }: NewChatDialogProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  // Wait for the user to stop typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching, hasNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["/api/users/search", debouncedQuery],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest(
+        "GET",
+        `/api/users/search?q=${encodeURIComponent(debouncedQuery)}&offset=${pageParam}`
+      );
+      return response.json() as Promise<PublicUser[]>;
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length >= USER_SEARCH_PAGE_SIZE ? allPages.length * USER_SEARCH_PAGE_SIZE : undefined,
+    enabled: open && debouncedQuery.length > 0,
+  });
+
+  const users = data?.pages.flat() ?? [];
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setQuery("");
+    }
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">New Chat</DialogTitle>
+        {/* Results come from the server already filtered */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search people by name or username..."
+            value={query}
+            onValueChange={setQuery}
+            data-testid="input-new-chat-search"
+          />
+          <CommandList>
+            {debouncedQuery && !isFetching && (
+              <CommandEmpty>No people found.</CommandEmpty>
+            )}
+            {users.length > 0 && (
+              <CommandGroup heading="People">
+                {users.map((user) => (
+                  <CommandItem
+                    key={user.id}
+                    value={user.id}
+                    onSelect={() => {
+                      onUserSelect(user);
+                      handleOpenChange(false);
+                    }}
+                    className="flex items-center space-x-3"
+                    data-testid={`new-chat-user-${user.id}`}
+                  >
+                    <UserAvatar user={user} size="sm" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{user.displayName}</p>
+                      <p className="text-xs text-muted-foreground truncate">@{user.username}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+                {hasNextPage && (
+                  <CommandItem
+                    value="load-more"
+                    onSelect={() => fetchNextPage()}
+                    className="justify-center text-sm text-muted-foreground"
+                    data-testid="new-chat-load-more"
+                  >
+                    {isFetching ? "Loading..." : "Show more"}
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
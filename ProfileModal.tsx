@@ -4,20 +4,64 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import UserAvatar from "@/components/UserAvatar";
-import type { PublicUser } from "@shared/schema";
+import UserAvatar, { presenceClasses, presenceLabels } from "@/components/UserAvatar";
+import { cn } from "@/lib/utils";
+import {
+  messagePrivacyOptions,
+  presenceStates,
+  visiblePresence,
+  type PresenceState,
+  type PublicUser,
+} from "@shared/schema";
 import { z } from "zod";
 
+const presenceOptions: Record<PresenceState, { label: string; description: string }> = {
+  online: { label: "Online", description: "You show as away after a few minutes without activity" },
+  away: { label: "Away", description: "You show as away even while you're active" },
+  dnd: { label: "Do not disturb", description: "Calls and friend requests won't pop up; calls are logged as missed" },
+  invisible: { label: "Invisible", description: "You appear offline to everyone but can keep chatting" },
+};
+
+// How long a custom status lasts before it's cleared
+const statusDurations = [
+  { value: "never", label: "Don't clear", ms: 0 },
+  { value: "30m", label: "30 minutes", ms: 30 * 60 * 1000 },
+  { value: "1h", label: "1 hour", ms: 60 * 60 * 1000 },
+  { value: "4h", label: "4 hours", ms: 4 * 60 * 60 * 1000 },
+  { value: "1d", label: "1 day", ms: 24 * 60 * 60 * 1000 },
+  { value: "1w", label: "1 week", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
 const profileSchema = z.object({
   displayName: z.string().min(1, "Display name is required").max(100),
+  presence: z.enum(presenceStates),
+  statusEmoji: z.string().max(32),
   status: z.string().max(200),
+  // "keep" leaves an expiry set earlier as it is
+  clearStatusAfter: z.string(),
+  allowMessagesFrom: z.enum(messagePrivacyOptions),
 });
 
 type ProfileData = z.infer<typeof profileSchema>;
 
+type ProfileUpdate = Omit<ProfileData, "clearStatusAfter" | "statusEmoji"> & {
+  statusEmoji: string | null;
+  statusExpiresAt?: string | null;
+};
+
+// undefined keeps the current expiry, null means the status stays until changed
+function statusExpiry(clearStatusAfter: string, hasStatus: boolean) {
+  if (!hasStatus) return null;
+  if (clearStatusAfter === "keep") return undefined;
+  const duration = statusDurations.find(option => option.value === clearStatusAfter);
+  return duration?.ms ? new Date(Date.now() + duration.ms).toISOString() : null;
+}
+
 interface ProfileModalProps {
   user: PublicUser;
   onClose: () => void;
@@ -32,18 +76,21 @@ export default function ProfileModal({ user, onClose, onUpdate }: ProfileModalPr
     resolver: zodResolver(profileSchema),
     defaultValues: {
       displayName: user.displayName,
+      presence: user.presence,
+      statusEmoji: user.statusEmoji || "",
       status: user.status || "",
+      clearStatusAfter: user.statusExpiresAt ? "keep" : "never",
+      allowMessagesFrom: user.allowMessagesFrom === "contacts" ? "contacts" : "everyone",
     },
   });
 
   const updateProfileMutation = useMutation({
-    mutationFn: async (data: ProfileData) => {
+    mutationFn: async (data: ProfileUpdate) => {
       const response = await apiRequest("PUT", "/api/users/profile", data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/users/online"] });
       toast({
         title: "Profile updated",
         description: "Your profile has been updated successfully.",
@@ -59,10 +106,18 @@ export default function ProfileModal({ user, onClose, onUpdate }: ProfileModalPr
     },
   });
 
-  const onSubmit = (data: ProfileData) => {
-    updateProfileMutation.mutate(data);
+  const onSubmit = ({ clearStatusAfter, statusEmoji, ...data }: ProfileData) => {
+    updateProfileMutation.mutate({
+      ...data,
+      statusEmoji: statusEmoji || null,
+      statusExpiresAt: statusExpiry(clearStatusAfter, !!(data.status || statusEmoji)),
+    });
   };
 
+  // Our own view: idle still counts, and invisible is named rather than shown as offline
+  const shownAs = visiblePresence({ ...user, isOnline: true });
+  const customStatus = [user.statusEmoji, user.status].filter(Boolean).join(" ");
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-card rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
@@ -91,6 +146,11 @@ export default function ProfileModal({ user, onClose, onUpdate }: ProfileModalPr
             <div className="mt-4">
               <h3 className="text-lg font-semibold text-card-foreground">{user.displayName}</h3>
               <p className="text-sm text-muted-foreground">@{user.username}</p>
+              <p className="mt-1 flex items-center justify-center space-x-1 text-sm text-muted-foreground" data-testid="text-profile-presence">
+                <span className={cn("w-2 h-2 rounded-full", presenceClasses[shownAs])}></span>
+                <span>{user.presence === "invisible" ? "Invisible" : presenceLabels[shownAs]}</span>
+                {customStatus && <span className="truncate">· {customStatus}</span>}
+              </p>
             </div>
           </div>
 
@@ -113,18 +173,115 @@ export default function ProfileModal({ user, onClose, onUpdate }: ProfileModalPr
               
               <FormField
                 control={form.control}
-                name="status"
+                name="presence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Presence</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-presence">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {presenceStates.map((state) => (
+                          <SelectItem key={state} value={state} data-testid={`option-presence-${state}`}>
+                            {presenceOptions[state].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{presenceOptions[field.value].description}</FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormLabel>Status Message</FormLabel>
+                <div className="flex space-x-2">
+                  <FormField
+                    control={form.control}
+                    name="statusEmoji"
+                    render={({ field }) => (
+                      <FormItem className="w-16 space-y-0">
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="🙂"
+                            className="text-center"
+                            aria-label="Status emoji"
+                            data-testid="input-status-emoji"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem className="flex-1 space-y-0">
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="What's on your mind?"
+                            data-testid="input-status"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="clearStatusAfter"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Status Message</FormLabel>
+                    <FormLabel>Clear status after</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-status-expiry">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {user.statusExpiresAt && (
+                          <SelectItem value="keep">
+                            Keep until {new Date(user.statusExpiresAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                          </SelectItem>
+                        )}
+                        {statusDurations.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="allowMessagesFrom"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                    <div className="space-y-0.5 pr-4">
+                      <FormLabel>Only contacts can message me</FormLabel>
+                      <FormDescription>
+                        People outside your contacts won't be able to start a chat with you
+                      </FormDescription>
+                    </div>
                     <FormControl>
-                      <Input
-                        {...field}
-                        placeholder="What's on your mind?"
-                        data-testid="input-status"
+                      <Switch
+                        checked={field.value === "contacts"}
+                        onCheckedChange={(checked) => field.onChange(checked ? "contacts" : "everyone")}
+                        data-testid="switch-contacts-only"
                       />
                     </FormControl>
-                    <FormMessage />
                   </FormItem>
                 )}
               />
@@ -1,5 +1,6 @@
 import { cn } from "@/lib/utils";
-import type { PublicUser } from "@shared/schema";
+import { usePresence } from "@/hooks/usePresence";
+import { visiblePresence, type PublicUser, type VisiblePresence } from "@shared/schema";
 
 interface UserAvatarProps {
   user: PublicUser;
@@ -22,12 +23,28 @@ const statusSizeClasses = {
   xl: "w-6 h-6 -bottom-2 -right-2",
 };
 
+export const presenceClasses: Record<VisiblePresence, string> = {
+  online: "bg-success",
+  away: "bg-warning",
+  dnd: "bg-destructive",
+  offline: "bg-muted",
+};
+
+export const presenceLabels: Record<VisiblePresence, string> = {
+  online: "Online",
+  away: "Away",
+  dnd: "Do not disturb",
+  offline: "Offline",
+};
+
 export default function UserAvatar({ 
   user, 
   size = "md", 
   className,
   showOnlineStatus = true 
 }: UserAvatarProps) {
+  const { presenceOf } = usePresence();
+  const presence = visiblePresence(presenceOf(user));
   const avatarUrl = user.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.username}`;
 
   return (
@@ -46,10 +63,13 @@ export default function UserAvatar({
           className={cn(
             "absolute rounded-full border-2 border-card",
             statusSizeClasses[size],
-            user.isOnline ? "bg-success" : "bg-muted"
+            presenceClasses[presence]
           )}
+          title={presenceLabels[presence]}
           data-testid={`status-${user.id}`}
-        />
+        >
+          {presence === "dnd" && <div className="absolute inset-x-[20%] top-1/2 h-[2px] -translate-y-1/2 rounded-full bg-card" />}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,43 @@
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/components/VoiceRecorderButton";
+import { isVideoAttachment, mediaUrl, type Attachment } from "@shared/schema";
+
+interface VideoAttachmentPlayerProps {
+  mediaId: string;
+  attachment?: Attachment;
+  maxWidth?: number;
+  className?: string;
+}
+
+export default function VideoAttachmentPlayer({ mediaId, attachment, maxWidth = 320, className }: VideoAttachmentPlayerProps) {
+  const video = isVideoAttachment(attachment) ? attachment : undefined;
+  // The poster frame is kept as the video's resized renditions
+  const poster = attachment?.renditions.medium ? mediaUrl(mediaId, "medium") : undefined;
+
+  return (
+    <div
+      className={cn("relative overflow-hidden rounded-lg bg-black", className)}
+      style={{
+        width: video ? Math.min(maxWidth, video.width) : maxWidth,
+        maxWidth: "100%",
+        aspectRatio: video ? `${video.width} / ${video.height}` : "16 / 9",
+      }}
+      data-testid={`video-attachment-${mediaId}`}
+    >
+      {/* The media endpoint answers range requests, so the browser streams and seeks without downloading everything */}
+      <video
+        src={mediaUrl(mediaId)}
+        poster={poster}
+        controls
+        playsInline
+        preload="metadata"
+        className="absolute inset-0 h-full w-full object-contain"
+      />
+      {video && (
+        <span className="pointer-events-none absolute top-2 right-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white tabular-nums">
+          {formatDuration(video.durationMs)}
+        </span>
+      )}
+    </div>
+  );
+}
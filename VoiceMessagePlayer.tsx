@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Play, Pause } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/components/VoiceRecorderButton";
+import { mediaUrl, type VoiceAttachment } from "@shared/schema";
+
+interface VoiceMessagePlayerProps {
+  attachment: VoiceAttachment;
+  isOwnMessage?: boolean;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+export default function VoiceMessagePlayer({ attachment, isOwnMessage }: VoiceMessagePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  // Recorded webm files often report no duration until fully downloaded, so the stored one is used
+  const durationMs = attachment.durationMs;
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+    }
+  }, [rateIndex]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => setIsPlaying(false));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (clientX: number) => {
+    const audio = audioRef.current;
+    const waveform = waveformRef.current;
+    if (!audio || !waveform) return;
+    const { left, width } = waveform.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - left) / width));
+    audio.currentTime = (fraction * durationMs) / 1000;
+    setPositionMs(fraction * durationMs);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsScrubbing(true);
+    seekTo(event.clientX);
+  };
+
+  return (
+    <div className="flex items-center space-x-3 w-64 max-w-full" data-testid={`voice-message-${attachment.mediaId}`}>
+      <audio
+        ref={audioRef}
+        src={mediaUrl(attachment.mediaId)}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setPositionMs(0);
+        }}
+        onTimeUpdate={(e) => !isScrubbing && setPositionMs(e.currentTarget.currentTime * 1000)}
+      />
+
+      <button
+        onClick={togglePlayback}
+        className={cn(
+          "h-9 w-9 shrink-0 rounded-full flex items-center justify-center",
+          isOwnMessage ? "bg-primary-foreground text-primary" : "bg-primary text-primary-foreground"
+        )}
+        title={isPlaying ? "Pause" : "Play"}
+        data-testid={`button-play-voice-${attachment.mediaId}`}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4 ml-0.5" />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          ref={waveformRef}
+          className="flex items-center h-8 space-x-px cursor-pointer touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => isScrubbing && seekTo(e.clientX)}
+          onPointerUp={() => setIsScrubbing(false)}
+          onPointerCancel={() => setIsScrubbing(false)}
+        >
+          {attachment.waveform.map((peak, index) => (
+            <span
+              key={index}
+              className={cn(
+                "flex-1 rounded-full transition-colors",
+                (index + 0.5) / attachment.waveform.length <= progress
+                  ? isOwnMessage ? "bg-primary-foreground" : "bg-primary"
+                  : isOwnMessage ? "bg-primary-foreground/40" : "bg-muted-foreground/40"
+              )}
+              style={{ height: `${Math.max(12, peak * 100)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between text-xs opacity-75">
+          <span className="tabular-nums">
+            {formatDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+          </span>
+          <button
+            onClick={() => setRateIndex((rateIndex + 1) % PLAYBACK_RATES.length)}
+            className="font-medium hover:opacity-100"
+            title="Playback speed"
+            data-testid={`button-voice-speed-${attachment.mediaId}`}
+          >
+            {PLAYBACK_RATES[rateIndex]}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useRef, useState } from "react";
+import { Mic, Lock, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useVoiceRecorder, type VoiceRecording } from "@/hooks/useVoiceRecorder";
+
+interface VoiceRecorderButtonProps {
+  disabled?: boolean;
+  onRecorded: (recording: VoiceRecording) => void;
+}
+
+// A press shorter than this is a tap, which locks recording on
+const TAP_MS = 300;
+// Recordings shorter than this are treated as accidental
+const MIN_RECORDING_MS = 500;
+// How far to slide up while holding to lock recording on
+const LOCK_DISTANCE_PX = 60;
+
+export function formatDuration(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Hold to record and release to send; tap, or slide up while holding, to keep recording hands-free
+export default function VoiceRecorderButton({ disabled, onRecorded }: VoiceRecorderButtonProps) {
+  const { toast } = useToast();
+  const { isSupported, isRecording, elapsedMs, start, stop, cancel } = useVoiceRecorder();
+  const [isLocked, setIsLockedState] = useState(false);
+  const lockedRef = useRef(false);
+  const pressRef = useRef<{ startedAt: number; startY: number } | null>(null);
+
+  const setIsLocked = (locked: boolean) => {
+    lockedRef.current = locked;
+    setIsLockedState(locked);
+  };
+
+  const finish = async () => {
+    setIsLocked(false);
+    const recording = await stop();
+    if (!recording) return;
+    if (recording.durationMs < MIN_RECORDING_MS) {
+      toast({ title: "Too short", description: "Hold the microphone to record a voice message" });
+      return;
+    }
+    onRecorded(recording);
+  };
+
+  const discard = () => {
+    setIsLocked(false);
+    cancel();
+  };
+
+  const handlePointerDown = async (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled || isRecording) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pressRef.current = { startedAt: Date.now(), startY: event.clientY };
+    try {
+      await start();
+      // Released while the browser was still asking for the microphone
+      if (!pressRef.current && !lockedRef.current) {
+        discard();
+      }
+    } catch (error) {
+      pressRef.current = null;
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access to record voice messages",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    const press = pressRef.current;
+    if (press && !isLocked && press.startY - event.clientY > LOCK_DISTANCE_PX) {
+      setIsLocked(true);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!press || isLocked) return;
+
+    if (Date.now() - press.startedAt < TAP_MS) {
+      setIsLocked(true);
+    } else {
+      finish();
+    }
+  };
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      {isRecording && (
+        <div className="flex items-center space-x-2 px-3 h-10 rounded-full bg-red-50 dark:bg-red-900/20" data-testid="voice-recording-indicator">
+          {isLocked && (
+            <button onClick={discard} className="text-muted-foreground hover:text-destructive" title="Discard" data-testid="button-discard-voice">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+          <span className="text-sm tabular-nums text-red-600 dark:text-red-400">{formatDuration(elapsedMs)}</span>
+          {!isLocked && (
+            <span className="flex items-center text-xs text-muted-foreground">
+              <Lock className="h-3 w-3 mr-1" />
+              Slide up to lock
+            </span>
+          )}
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={disabled && !isRecording}
+        onPointerDown={isLocked ? undefined : handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => !isLocked && discard()}
+        onClick={isLocked ? finish : undefined}
+        className="p-2 h-10 w-10 rounded-full bg-green-50 hover:bg-green-100 dark:bg-green-900/20 dark:hover:bg-green-900/40 border-0 chat-mobile-button media-button touch-none"
+        data-testid="button-voice-message"
+        title={isLocked ? "Send Voice Message" : "Hold to Record"}
+      >
+        {isLocked ? (
+          <Send className="h-5 w-5 text-green-600 dark:text-green-400" />
+        ) : (
+          <Mic className={`h-5 w-5 ${isRecording ? "text-red-600" : "text-green-600 dark:text-green-400"}`} />
+        )}
+      </Button>
+    </div>
+  );
+}
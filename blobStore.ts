@@ -0,0 +1,160 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+
+export interface BlobMetadata {
+  contentType: string;
+  size: number;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Content-addressed storage for uploaded files; keys are never reused for different bytes
+export interface IBlobStore {
+  put(key: string, body: Readable, metadata: BlobMetadata): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements IBlobStore {
+  constructor(private root: string) {}
+
+  // Spread files over subdirectories so no single directory grows too large
+  private pathFor(key: string) {
+    return path.join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.pathFor(key);
+    await mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temporary name first so readers never see a partial file
+    const partial = `${target}.${randomUUID()}.partial`;
+    try {
+      await pipeline(body, createWriteStream(partial));
+      await rename(partial, target);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.pathFor(key), range);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await stat(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3BlobStore implements IBlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor({ bucket, region, endpoint, accessKeyId, secretAccessKey }: S3BlobStoreOptions) {
+    this.bucket = bucket;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      // MinIO and other S3-compatible servers expect bucket names in the path
+      forcePathStyle: !!endpoint,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  async put(key: string, body: Readable, { contentType, size }: BlobMetadata): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentLength: size,
+    }));
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return object.Body as Readable;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+// BLOB_STORE=s3 switches to S3 (or a compatible server via S3_ENDPOINT); local disk otherwise
+export function createBlobStore(env = process.env): IBlobStore {
+  if (env.BLOB_STORE === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORE is s3");
+    }
+    return new S3BlobStore({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || "us-east-1",
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalBlobStore(path.resolve(env.MEDIA_DIR || "uploads"));
+}
+
+export const blobStore = createBlobStore();
+
+// Stores bytes under their SHA-256 hash, skipping the write when they are already stored
+export async function storeContent(data: Buffer, contentType: string) {
+  const hash = createHash("sha256").update(data).digest("hex");
+  if (!(await blobStore.exists(hash))) {
+    await blobStore.put(hash, Readable.from(data), { contentType, size: data.length });
+  }
+  return { hash, size: data.length };
+}
@@ -0,0 +1,31 @@
+// Same shape as the browser's RTCIceServer
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302"];
+
+// ICE_SERVERS takes a comma-separated list of stun: and turn: URLs, e.g.
+// "stun:stun.example.com:3478,turn:turn.example.com:3478?transport=udp";
+// TURN_USERNAME and TURN_CREDENTIAL are sent along with the TURN ones.
+export function loadIceServers(env = process.env): IceServer[] {
+  const urls = env.ICE_SERVERS !== undefined
+    ? env.ICE_SERVERS.split(",").map(url => url.trim()).filter(Boolean)
+    : DEFAULT_STUN_URLS;
+
+  const stunUrls = urls.filter(url => !/^turns?:/.test(url));
+  const turnUrls = urls.filter(url => /^turns?:/.test(url));
+
+  const servers: IceServer[] = [];
+  if (stunUrls.length > 0) {
+    servers.push({ urls: stunUrls });
+  }
+  if (turnUrls.length > 0) {
+    servers.push({ urls: turnUrls, username: env.TURN_USERNAME, credential: env.TURN_CREDENTIAL });
+  }
+  return servers;
+}
+
+export const iceServers = loadIceServers();
@@ -0,0 +1,70 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { UploadError, readHeader } from "./uploads";
+import { RENDITION_SIZES, type RenditionName } from "@shared/schema";
+
+// File signatures for the image types we accept
+const signatures: Array<{ contentType: string; matches: (header: Buffer) => boolean }> = [
+  { contentType: "image/jpeg", matches: (header) => header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { contentType: "image/png", matches: (header) => header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: "image/gif", matches: (header) => ["GIF87a", "GIF89a"].includes(header.toString("ascii", 0, 6)) },
+  { contentType: "image/webp", matches: (header) => header.toString("ascii", 0, 4) === "RIFF" && header.toString("ascii", 8, 12) === "WEBP" },
+];
+
+export function detectImageType(header: Buffer): string | undefined {
+  return signatures.find(signature => signature.matches(header))?.contentType;
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  renditions: Record<RenditionName, { data: Buffer; width: number; height: number; contentType: string }>;
+}
+
+// Checks the real type of an uploaded image, re-encodes it without metadata
+// (EXIF location included) and builds the resized copies and blurhash placeholder.
+export async function processImage(filePath: string): Promise<ProcessedImage> {
+  const contentType = detectImageType(await readHeader(filePath));
+  if (!contentType) {
+    throw new UploadError("File is not a supported image", 415);
+  }
+
+  const isAnimated = contentType === "image/gif";
+  // rotate() applies the EXIF orientation before the metadata is dropped
+  const source = sharp(filePath, { animated: isAnimated }).rotate();
+
+  const encoder = contentType === "image/jpeg" ? source.clone().jpeg({ quality: 90 }) : source.clone();
+  const original = await encoder.toBuffer({ resolveWithObject: true }).catch(() => {
+    throw new UploadError("Image could not be read", 415);
+  });
+  // Animated images report the height of all frames stacked together
+  const height = isAnimated ? original.info.pageHeight ?? original.info.height : original.info.height;
+  const width = original.info.width;
+
+  const renditions = {} as ProcessedImage["renditions"];
+  for (const [name, longestEdge] of Object.entries(RENDITION_SIZES) as Array<[RenditionName, number]>) {
+    const { data, info } = await source
+      .clone()
+      .resize(longestEdge, longestEdge, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    renditions[name] = {
+      data,
+      width: info.width,
+      height: isAnimated ? info.pageHeight ?? info.height : info.height,
+      contentType: "image/webp",
+    };
+  }
+
+  const pixels = await sharp(renditions.thumb.data, { pages: 1 })
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encode(new Uint8ClampedArray(pixels.data), pixels.info.width, pixels.info.height, 4, 3);
+
+  return { data: original.data, contentType, width, height, blurhash, renditions };
+}
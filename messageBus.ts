@@ -0,0 +1,121 @@
+import { Pool } from "@neondatabase/serverless";
+import { eq, lt, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { busEvents } from "@shared/schema";
+
+// Carries events between server instances so each one can deliver to the sockets it holds.
+// Every subscriber, including the publishing instance itself, receives every event.
+export interface IMessageBus<T> {
+  start(): Promise<void>;
+  publish(event: T): Promise<void>;
+  subscribe(handler: (event: T) => void): void;
+}
+
+// A single server: events go straight to the subscribers
+export class InProcessMessageBus<T> implements IMessageBus<T> {
+  private handlers: Array<(event: T) => void> = [];
+
+  async start(): Promise<void> {}
+
+  async publish(event: T): Promise<void> {
+    this.handlers.forEach(handler => handler(event));
+  }
+
+  subscribe(handler: (event: T) => void): void {
+    this.handlers.push(handler);
+  }
+}
+
+const CHANNEL = "chatbook_events";
+// NOTIFY payloads are capped at 8000 bytes
+const MAX_NOTIFY_BYTES = 7500;
+// Spilled events only need to live until every listener has read them
+const SPILLED_EVENT_TTL = "1 minute";
+const RECONNECT_DELAY_MS = 1000;
+
+// Several servers sharing one database: events are sent with NOTIFY and received on a LISTEN connection
+export class PostgresMessageBus<T> implements IMessageBus<T> {
+  private handlers: Array<(event: T) => void> = [];
+  // Publishing and receiving each run one event at a time, so order is kept end to end
+  private publishing: Promise<void> = Promise.resolve();
+  private receiving: Promise<void> = Promise.resolve();
+
+  constructor(private listenPool: Pool) {}
+
+  async start(): Promise<void> {
+    const client = await this.listenPool.connect();
+    client.on("notification", (notification) => {
+      this.receiving = this.receiving
+        .then(() => this.receive(notification.payload))
+        .catch(error => console.error("Message bus receive error:", error));
+    });
+    client.on("error", (error) => {
+      console.error("Message bus connection error:", error);
+      client.release(error);
+      setTimeout(() => this.restart(), RECONNECT_DELAY_MS);
+    });
+    await client.query(`LISTEN ${CHANNEL}`);
+  }
+
+  private restart() {
+    this.start().catch((error) => {
+      console.error("Message bus reconnect error:", error);
+      setTimeout(() => this.restart(), RECONNECT_DELAY_MS);
+    });
+  }
+
+  publish(event: T): Promise<void> {
+    const sent = this.publishing.then(() => this.send(event));
+    this.publishing = sent.catch(() => {});
+    return sent;
+  }
+
+  subscribe(handler: (event: T) => void): void {
+    this.handlers.push(handler);
+  }
+
+  private async send(event: T) {
+    let payload = JSON.stringify({ event });
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      await db.delete(busEvents).where(lt(busEvents.createdAt, sql`now() - ${SPILLED_EVENT_TTL}::interval`));
+      const [stored] = await db.insert(busEvents).values({ payload: event }).returning({ id: busEvents.id });
+      payload = JSON.stringify({ ref: stored.id });
+    }
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload]);
+  }
+
+  private async receive(payload?: string) {
+    if (!payload) return;
+    const { event, ref } = JSON.parse(payload) as { event?: T; ref?: number };
+    if (ref !== undefined) {
+      const [stored] = await db.select().from(busEvents).where(eq(busEvents.id, ref));
+      if (!stored) return;
+      this.dispatch(stored.payload as T);
+    } else if (event !== undefined) {
+      this.dispatch(event);
+    }
+  }
+
+  private dispatch(event: T) {
+    this.handlers.forEach((handler) => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error("Message bus handler error:", error);
+      }
+    });
+  }
+}
+
+// MESSAGE_BUS=postgres lets several server instances share sockets through the database.
+// LISTEN needs a direct (not pooled) connection; set MESSAGE_BUS_DATABASE_URL if DATABASE_URL
+// points at a transaction-mode pooler.
+export function createMessageBus<T>(env = process.env): IMessageBus<T> {
+  if (env.MESSAGE_BUS === "postgres") {
+    const listenPool = env.MESSAGE_BUS_DATABASE_URL
+      ? new Pool({ connectionString: env.MESSAGE_BUS_DATABASE_URL, max: 1 })
+      : pool;
+    return new PostgresMessageBus<T>(listenPool);
+  }
+  return new InProcessMessageBus<T>();
+}
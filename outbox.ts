@@ -0,0 +1,65 @@
+import type { MessageType } from "@shared/schema";
+
+// A message the user sent that the server hasn't confirmed yet. It lives in IndexedDB
+// until the server answers with a message carrying the same clientId.
+export interface OutboxMessage {
+  clientId: string;
+  senderId: string;
+  receiverId?: string;
+  conversationId?: string;
+  content: string;
+  messageType: MessageType;
+  mediaId?: string;
+  replyToId?: string;
+  createdAt: number;
+  status: "sending" | "failed";
+  error?: string;
+}
+
+const DB_NAME = "chatbook";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase() {
+  if (!database) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "clientId" });
+      store.createIndex("senderId", "senderId");
+    };
+    database = request(req);
+    // Let a later call try again, e.g. after the user allows storage
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+// Oldest first, so a flush sends them in the order they were written
+export async function listOutbox(senderId: string): Promise<OutboxMessage[]> {
+  const entries = await withStore("readonly", store =>
+    store.index("senderId").getAll(senderId) as IDBRequest<OutboxMessage[]>
+  );
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveToOutbox(message: OutboxMessage): Promise<void> {
+  await withStore("readwrite", store => store.put(message));
+}
+
+export async function removeFromOutbox(clientId: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(clientId));
+}
@@ -1,8 +1,60 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { loginSchema, registerSchema, messageSchema } from "@shared/schema";
+import { createReadStream } from "fs";
+import { rm } from "fs/promises";
+import { randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
+import { storage, toPublicUser } from "./storage";
+import { blobStore, storeContent } from "./blobStore";
+import { processImage } from "./images";
+import { probeVideo } from "./videos";
+import { iceServers } from "./iceServers";
+import { createMessageBus } from "./messageBus";
+import { receiveUpload, checkUploadSize, UploadError, type ReceivedFile } from "./uploads";
+import {
+  loginSchema,
+  registerSchema,
+  clientFrameSchema,
+  createConversationSchema,
+  updateConversationSchema,
+  addConversationMembersSchema,
+  updateConversationMemberSchema,
+  messageHistoryQuerySchema,
+  messageSearchQuerySchema,
+  userSearchQuerySchema,
+  contactRequestSchema,
+  updateProfileSchema,
+  muteChatSchema,
+  editMessageSchema,
+  reactionSchema,
+  isSameChat,
+  mediaUrl,
+  imageMimeTypes,
+  voiceMimeTypes,
+  voiceMetadataSchema,
+  videoMimeTypes,
+  videoMetadataSchema,
+  isImageAttachment,
+  isVoiceAttachment,
+  CALL_RING_TIMEOUT_MS,
+  PROTOCOL_VERSION,
+  PROTOCOL_UPGRADE_CLOSE_CODE,
+  parseProtocolVersion,
+  RENDITION_SIZES,
+  type RenditionName,
+  type ConversationRole,
+  type Message,
+  type Attachment,
+  type Call,
+  type CallKind,
+  type CallStatus,
+  type ClientFrame,
+  type ServerFrame,
+  type SocketErrorCode,
+  type InsertMessage,
+} from "@shared/schema";
+import type { ZodIssue } from "zod";
 import bcrypt from "bcrypt";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
@@ -11,6 +63,7 @@ interface AuthenticatedRequest extends Express.Request {
   user?: { id: string };
   body: any;
   params: any;
+  query: any;
 }
 
 declare module 'express-session' {
@@ -19,8 +72,68 @@ declare module 'express-session' {
   }
 }
 
-// WebSocket connection tracking
-const connectedUsers = new Map<string, WebSocket>();
+// WebSocket connection tracking: every open tab or device of a user has its own socket.
+// These only hold this instance's sockets; socket_connections counts them across instances.
+const connectedUsers = new Map<string, Set<WebSocket>>();
+const socketsById = new Map<string, WebSocket>();
+const socketIds = new WeakMap<WebSocket, string>();
+// Which login session opened each socket, so logging out closes only that session's sockets
+const socketSessions = new WeakMap<WebSocket, string>();
+// Tags this instance's rows in socket_connections
+const instanceId = randomUUID();
+const CONNECTION_REFRESH_MS = 30 * 1000;
+const STATUS_EXPIRY_SWEEP_MS = 60 * 1000;
+// Pongs refresh last seen at most this often per user
+const LAST_SEEN_REFRESH_MS = 60 * 1000;
+const lastSeenRefreshes = new Map<string, number>();
+
+// Everything sent to sockets goes through the bus, and each instance delivers to the sockets it holds
+type BusEvent =
+  | { to: "user"; userId: string; message: ServerFrame; exceptSocketId?: string }
+  | { to: "socket"; socketId: string; message: ServerFrame }
+  | { to: "users"; userIds: string[]; message: ServerFrame }
+  | { to: "session"; userId: string; sessionId: string }
+  // Call frames are handled by the instance that holds the call
+  | { to: "call"; callId: string; userId: string; socketId: string; message: CallFrame }
+  // Without a socket id, every socket the user had is gone
+  | { to: "disconnected"; userId: string; socketId?: string; wasLastSocket: boolean };
+const messageBus = createMessageBus<BusEvent>();
+
+// Call frames other than the invite, which the instance holding the call acts on
+type CallFrame = Extract<ClientFrame, { type: 'call_accept' | 'call_decline' | 'call_hangup' | 'call_offer' | 'call_answer' | 'call_ice_candidate' }>;
+
+// Calls that are ringing or in progress, by call id. The call runs between the
+// caller's socket and whichever of the callee's sockets answered.
+interface ActiveCall {
+  call: Call;
+  callerSocketId: string;
+  calleeSocketId?: string;
+  ringTimeout?: NodeJS.Timeout;
+}
+const activeCalls = new Map<string, ActiveCall>();
+
+// Outcome of an edit or delete: the updated message, or why it was refused
+type MessageChangeResult = { message: Message } | { status: number; error: string };
+
+// Previous versions of edited messages are kept unless turned off
+const keepMessageEditHistory = process.env.MESSAGE_EDIT_HISTORY !== "off";
+
+// A socket that hasn't answered a ping for this long is dropped as dead; pings go out twice per timeout
+const heartbeatTimeoutMs = Number(process.env.WS_HEARTBEAT_TIMEOUT_MS) || 60 * 1000;
+// When each socket last answered a ping
+const lastPongs = new WeakMap<WebSocket, number>();
+
+// A reconnecting client gets at most this many missed messages replayed; past that it refetches
+const RESUME_REPLAY_LIMIT = 500;
+// Replay starts a little before the client's cursor to cover events that were still in flight
+const RESUME_OVERLAP_MS = 5000;
+
+// Higher rank can manage lower rank in a group
+const roleRank: Record<ConversationRole, number> = {
+  owner: 2,
+  admin: 1,
+  member: 0,
+};
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration
@@ -33,7 +146,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     tableName: "sessions",
   });
 
-  app.use(session({
+  const sessionParser = session({
     secret: process.env.SESSION_SECRET || "your-secret-key",
     store: sessionStore,
     resave: false,
@@ -44,7 +157,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       maxAge: sessionTtl,
       sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
     },
-  }));
+  });
+
+  app.use(sessionParser);
 
   // CORS headers for better connectivity
   app.use((req, res, next) => {
@@ -123,9 +238,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/logout", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       if (req.user) {
-        await storage.updateUserOnlineStatus(req.user.id, false);
-        // Remove from connected users
-        connectedUsers.delete(req.user.id);
+        // Close this session's sockets; the user stays online on their other devices
+        publish({ to: "session", userId: req.user.id, sessionId: req.sessionID });
       }
       req.session.destroy(() => {
         res.json({ message: "Logged out successfully" });
@@ -162,46 +276,282 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User routes
-  app.get("/api/users/online", requireAuth, async (req, res) => {
+  app.get("/api/users/search", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const query = userSearchQuerySchema.parse(req.query);
+      const users = await storage.searchUsers(req.user!.id, query);
+      res.json(users);
+    } catch (error: any) {
+      console.error("Search users error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to search users",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.get("/api/users/blocked", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const onlineUsers = await storage.getOnlineUsers();
-      res.json(onlineUsers);
+      const blockedUsers = await storage.getBlockedUsers(req.user!.id);
+      res.json(blockedUsers);
     } catch (error) {
-      console.error("Get online users error:", error);
-      res.status(500).json({ message: "Failed to get online users" });
+      console.error("Get blocked users error:", error);
+      res.status(500).json({ message: "Failed to get blocked users" });
     }
   });
 
-  // Image upload endpoint
-  app.post("/api/upload/image", requireAuth, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/users/:userId/block", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const { imageData } = req.body;
-      if (!imageData) {
-        return res.status(400).json({ message: "No image data provided" });
+      const { userId } = req.params;
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot block yourself" });
       }
-      
-      // For now, we'll store as base64 data URL
-      // In production, you'd upload to cloud storage
-      res.json({ imageUrl: imageData });
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.blockUser(req.user!.id, userId);
+      // The blocked user loses the friendship, and neither side follows the other's presence any more
+      sendToUser(userId, { type: 'contact_updated' });
+      await sendPresenceSnapshot(userId);
+      await sendPresenceSnapshot(req.user!.id);
+      res.json({ message: "User blocked" });
     } catch (error) {
-      console.error("Image upload error:", error);
-      res.status(500).json({ message: "Failed to upload image" });
+      console.error("Block user error:", error);
+      res.status(500).json({ message: "Failed to block user" });
     }
   });
 
-  app.put("/api/users/profile", requireAuth, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/users/:userId/block", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      await storage.unblockUser(req.user!.id, req.params.userId);
+      await sendPresenceSnapshot(req.params.userId);
+      await sendPresenceSnapshot(req.user!.id);
+      res.json({ message: "User unblocked" });
+    } catch (error) {
+      console.error("Unblock user error:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+
+  // Media routes
+  app.post("/api/media", requireAuth, async (req, res) => {
+    let upload: ReceivedFile | undefined;
+    try {
+      upload = await receiveUpload(req);
+
+      if (isImageType(upload.contentType)) {
+        const { file, attachment } = await storeImage(req.session.userId!, upload);
+        return res.json({ ...file, attachment, url: mediaUrl(file.id) });
+      }
+      if (isVideoType(upload.contentType)) {
+        const { file, attachment } = await storeVideo(req.session.userId!, upload);
+        return res.json({ ...file, attachment, url: mediaUrl(file.id) });
+      }
+
+      // Only images and videos are recognised by their signature, so nothing else gets their limits
+      checkUploadSize(upload, /^(image|video)\//.test(upload.contentType) ? "application/octet-stream" : upload.contentType);
+
+      // Voice recordings come with their duration and waveform, measured by the recording browser
+      const voice = isVoiceType(upload.contentType) && upload.fields.durationMs !== undefined
+        ? voiceMetadataSchema.parse(upload.fields)
+        : undefined;
+
+      const file = await storeFile(req.session.userId!, upload);
+      const attachment = voice
+        ? await storage.createAttachment({ mediaId: file.id, ...voice })
+        : undefined;
+      res.json({ ...file, attachment, url: mediaUrl(file.id) });
+    } catch (error: any) {
+      console.error("Media upload error:", error);
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to upload file",
+        errors: error.issues || undefined
+      });
+    } finally {
+      if (upload) {
+        await rm(upload.tempPath, { force: true });
+      }
+    }
+  });
+
+  app.get("/api/media/:id", requireAuth, async (req, res) => {
     try {
-      const { displayName, avatar, status } = req.body;
-      const updatedUser = await storage.updateUserProfile(req.user!.id, {
-        displayName,
-        avatar,
-        status,
+      const file = await storage.getMedia(req.params.id);
+      // Files outside the user's chats look the same as missing ones
+      if (!file || !(await storage.canAccessMedia(req.session.userId!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // ?size=thumb or ?size=medium picks a resized copy when one was made
+      const size = req.query.size as string | undefined;
+      if (size !== undefined && !(size in RENDITION_SIZES)) {
+        return res.status(400).json({ message: "Unknown size" });
+      }
+      const rendition = size ? (await storage.getAttachment(file.id))?.renditions[size as RenditionName] : undefined;
+      const blob = rendition ?? file;
+
+      // Content never changes for an id, so clients can cache it for good
+      const etag = `"${blob.hash}"`;
+      res.set({
+        "Content-Type": blob.contentType,
+        "Content-Length": String(blob.size),
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "ETag": etag,
+        "X-Content-Type-Options": "nosniff",
+        "Accept-Ranges": "bytes",
+        // Only images and recordings are played inline; anything else is always downloaded
+        "Content-Disposition": isImageType(blob.contentType) || isVoiceType(blob.contentType) || isVideoType(blob.contentType)
+          ? "inline"
+          : `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName || "download")}`,
       });
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+
+      // Players request byte ranges when seeking
+      const range = parseByteRange(req.headers.range, blob.size);
+      if (range === null) {
+        res.set("Content-Range", `bytes */${blob.size}`);
+        return res.status(416).end();
+      }
+      if (range) {
+        res.status(206).set({
+          "Content-Range": `bytes ${range.start}-${range.end}/${blob.size}`,
+          "Content-Length": String(range.end - range.start + 1),
+        });
+      }
+
+      await pipeline(await blobStore.get(blob.hash, range), res);
+    } catch (error) {
+      console.error("Get media error:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to get file" });
+      }
+    }
+  });
+
+  // STUN/TURN servers the browsers use to connect calls
+  app.get("/api/calls/config", requireAuth, (req, res) => {
+    res.json({ iceServers });
+  });
+
+  app.put("/api/users/profile", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const profile = updateProfileSchema.parse(req.body);
+      const updatedUser = await storage.updateUserProfile(req.user!.id, profile);
+      // The user's other tabs pick up the change along with everyone watching their presence
+      await broadcastPresence(req.user!.id, true);
       const { password, ...publicUser } = updatedUser;
       res.json(publicUser);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Update profile error:", error);
-      res.status(500).json({ message: "Failed to update profile" });
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to update profile",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  // Contact routes
+  app.get("/api/contacts", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const contactList = await storage.getContacts(req.user!.id);
+      res.json(contactList);
+    } catch (error) {
+      console.error("Get contacts error:", error);
+      res.status(500).json({ message: "Failed to get contacts" });
+    }
+  });
+
+  app.post("/api/contacts/requests", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { userId } = contactRequestSchema.parse(req.body);
+      const requesterId = req.user!.id;
+      if (userId === requesterId) {
+        return res.status(400).json({ message: "You cannot add yourself" });
+      }
+
+      // A block either way looks the same as a missing user, so it isn't given away
+      const addressee = await storage.getUser(userId);
+      if (!addressee || (await storage.isBlockedBetween(requesterId, userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      let existing = await storage.getContactBetween(requesterId, userId);
+      if (existing?.status === "accepted") {
+        return res.status(400).json({ message: "Already in your contacts" });
+      }
+      if (existing?.status === "pending" && existing.requesterId === requesterId) {
+        return res.status(400).json({ message: "Request already sent" });
+      }
+
+      // Both sides asked, so the earlier request is simply accepted
+      if (existing?.status === "pending") {
+        const contact = await storage.updateContactStatus(existing.id, "accepted");
+        sendToUser(userId, { type: 'contact_updated', contact });
+        return res.json(contact);
+      }
+
+      // A declined request can be replaced by a fresh one
+      if (existing) {
+        await storage.deleteContact(existing.id);
+      }
+
+      const contact = await storage.createContactRequest(requesterId, userId);
+      const requester = await storage.getUser(requesterId);
+      sendToUser(userId, {
+        type: 'friend_request',
+        contact,
+        user: toPublicUser(requester!),
+      });
+      res.json(contact);
+    } catch (error: any) {
+      console.error("Contact request error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to send contact request",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.post("/api/contacts/requests/:id/:action(accept|decline)", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id, action } = req.params;
+      const existing = await storage.getContactById(id);
+      if (!existing || existing.addresseeId !== req.user!.id || existing.status !== "pending") {
+        return res.status(404).json({ message: "Contact request not found" });
+      }
+
+      const contact = await storage.updateContactStatus(id, action === "accept" ? "accepted" : "declined");
+      sendToUser(contact.requesterId, { type: 'contact_updated', contact });
+      res.json(contact);
+    } catch (error) {
+      console.error("Respond to contact request error:", error);
+      res.status(500).json({ message: "Failed to respond to contact request" });
+    }
+  });
+
+  // Removes a contact, or cancels a pending request, in either direction
+  app.delete("/api/contacts/:userId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { userId } = req.params;
+      const existing = await storage.getContactBetween(req.user!.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      await storage.deleteContact(existing.id);
+      sendToUser(userId, { type: 'contact_updated', contact: existing });
+      res.json({ message: "Contact removed" });
+    } catch (error) {
+      console.error("Remove contact error:", error);
+      res.status(500).json({ message: "Failed to remove contact" });
     }
   });
 
@@ -219,15 +569,304 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/chat/messages/:userId", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       const { userId } = req.params;
-      const messages = await storage.getMessagesBetweenUsers(req.user!.id, userId);
+      const query = messageHistoryQuerySchema.parse(req.query);
+      const messages = await storage.attachMessageDetails(
+        await storage.getMessagesBetweenUsers(req.user!.id, userId, query)
+      );
       
-      // Mark messages as read
-      await storage.markMessagesAsRead(userId, req.user!.id);
+      // Opening the chat reads it
+      await markDirectMessagesRead(req.user!.id, userId);
       
       res.json(messages);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Get messages error:", error);
-      res.status(500).json({ message: "Failed to get messages" });
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to get messages",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.get("/api/chat/search", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const query = messageSearchQuerySchema.parse(req.query);
+      const results = await storage.searchMessages(req.user!.id, query);
+      res.json(results);
+    } catch (error: any) {
+      console.error("Search messages error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to search messages",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.put("/api/chat/messages/:messageId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { content } = editMessageSchema.parse(req.body);
+      const result = await editOwnMessage(req.user!.id, req.params.messageId, content);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result.message);
+    } catch (error: any) {
+      console.error("Edit message error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to edit message",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.delete("/api/chat/messages/:messageId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await deleteOwnMessage(req.user!.id, req.params.messageId);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result.message);
+    } catch (error) {
+      console.error("Delete message error:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  app.get("/api/chat/messages/:messageId/edits", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const message = await storage.getMessage(req.params.messageId);
+      if (!message || !(await canViewMessage(req.user!.id, message))) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const edits = await storage.getMessageEdits(message.id);
+      res.json(edits);
+    } catch (error) {
+      console.error("Get message edits error:", error);
+      res.status(500).json({ message: "Failed to get message history" });
+    }
+  });
+
+  app.post("/api/chat/messages/:messageId/reactions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { emoji } = reactionSchema.parse(req.body);
+      const reactions = await toggleReaction(req.user!.id, req.params.messageId, emoji);
+      if (!reactions) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      res.json(reactions);
+    } catch (error: any) {
+      console.error("Toggle reaction error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to react to message",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  // Muting hides unread indicators and notifications for one chat without blocking anyone
+  app.put("/api/chat/mutes", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const data = muteChatSchema.parse(req.body);
+      if (data.conversationId && !(await storage.getConversationMember(data.conversationId, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      await storage.setChatMuted(req.user!.id, data);
+      res.json({ muted: data.muted });
+    } catch (error: any) {
+      console.error("Mute chat error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to update mute setting",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  // Group conversation routes
+  app.post("/api/chat/conversations", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const data = createConversationSchema.parse(req.body);
+      if (!(await canAddMembers(req.user!.id, data.memberIds))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const conversation = await storage.createConversation(req.user!.id, data);
+
+      await sendToConversation(conversation.id, {
+        type: 'conversation_updated',
+        conversationId: conversation.id,
+      });
+      res.json(conversation);
+    } catch (error: any) {
+      console.error("Create conversation error:", error);
+      res.status(400).json({
+        message: error.issues ? "Validation error" : "Failed to create conversation",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.get("/api/chat/conversations/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const member = await storage.getConversationMember(req.params.id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const conversation = await storage.getConversation(req.params.id);
+      res.json(conversation);
+    } catch (error) {
+      console.error("Get conversation error:", error);
+      res.status(500).json({ message: "Failed to get conversation" });
+    }
+  });
+
+  app.put("/api/chat/conversations/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const member = await storage.getConversationMember(req.params.id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (roleRank[member.role as ConversationRole] < roleRank.admin) {
+        return res.status(403).json({ message: "Only admins can edit the group" });
+      }
+
+      const data = updateConversationSchema.parse(req.body);
+      const conversation = await storage.updateConversation(req.params.id, data);
+
+      await sendToConversation(conversation.id, {
+        type: 'conversation_updated',
+        conversationId: conversation.id,
+      });
+      res.json(conversation);
+    } catch (error: any) {
+      console.error("Update conversation error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to update conversation",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.get("/api/chat/conversations/:id/messages", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const member = await storage.getConversationMember(req.params.id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const query = messageHistoryQuerySchema.parse(req.query);
+      const messages = await storage.attachMessageDetails(
+        await storage.getConversationMessages(req.params.id, query)
+      );
+
+      // Mark the group as read up to now. No receipt goes out: it would reach the client that is
+      // loading this page too, which refreshes its own chat list instead
+      await storage.markConversationAsRead(req.params.id, req.user!.id);
+
+      res.json(messages);
+    } catch (error: any) {
+      console.error("Get conversation messages error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to get messages",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.post("/api/chat/conversations/:id/members", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const member = await storage.getConversationMember(req.params.id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (roleRank[member.role as ConversationRole] < roleRank.admin) {
+        return res.status(403).json({ message: "Only admins can add members" });
+      }
+
+      const { userIds } = addConversationMembersSchema.parse(req.body);
+      if (!(await canAddMembers(req.user!.id, userIds))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.addConversationMembers(req.params.id, userIds);
+
+      await sendToConversation(req.params.id, {
+        type: 'conversation_updated',
+        conversationId: req.params.id,
+      });
+      res.json(await storage.getConversation(req.params.id));
+    } catch (error: any) {
+      console.error("Add conversation members error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to add members",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  app.put("/api/chat/conversations/:id/members/:userId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id, userId } = req.params;
+      const member = await storage.getConversationMember(id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (member.role !== "owner") {
+        return res.status(403).json({ message: "Only the owner can change roles" });
+      }
+
+      const target = await storage.getConversationMember(id, userId);
+      if (!target || target.role === "owner") {
+        return res.status(400).json({ message: "Cannot change this member's role" });
+      }
+
+      const { role } = updateConversationMemberSchema.parse(req.body);
+      await storage.updateConversationMemberRole(id, userId, role);
+
+      await sendToConversation(id, {
+        type: 'conversation_updated',
+        conversationId: id,
+      });
+      res.json(await storage.getConversation(id));
+    } catch (error: any) {
+      console.error("Update conversation member error:", error);
+      res.status(error.issues ? 400 : 500).json({
+        message: error.issues ? "Validation error" : "Failed to update member",
+        errors: error.issues || undefined
+      });
+    }
+  });
+
+  // Leaving a group is removing yourself; removing anyone else is a kick
+  app.delete("/api/chat/conversations/:id/members/:userId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id, userId } = req.params;
+      const member = await storage.getConversationMember(id, req.user!.id);
+      if (!member) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      if (userId !== req.user!.id) {
+        const target = await storage.getConversationMember(id, userId);
+        if (!target) {
+          return res.status(404).json({ message: "Member not found" });
+        }
+        const actorRank = roleRank[member.role as ConversationRole];
+        if (actorRank < roleRank.admin || actorRank <= roleRank[target.role as ConversationRole]) {
+          return res.status(403).json({ message: "You cannot remove this member" });
+        }
+      }
+
+      // Notify before removal so the departing member hears about it too
+      const memberIds = await storage.getConversationMemberIds(id);
+      await storage.removeConversationMember(id, userId);
+
+      memberIds.forEach((memberId) => {
+        sendToUser(memberId, {
+          type: 'conversation_updated',
+          conversationId: id,
+        });
+      });
+      res.json({ message: userId === req.user!.id ? "Left conversation" : "Member removed" });
+    } catch (error) {
+      console.error("Remove conversation member error:", error);
+      res.status(500).json({ message: "Failed to remove member" });
     }
   });
 
@@ -239,102 +878,778 @@ export async function registerRoutes(app: Express): Promise<Server> {
     path: '/ws',
     perMessageDeflate: false,
     maxPayload: 5 * 1024 * 1024, // 5MB for images
+    // Take our version if the client offers it, otherwise any ChatBook version, so the
+    // handshake completes and the client can be told to upgrade
+    handleProtocols: (protocols) => {
+      const offered = Array.from(protocols).filter(protocol => parseProtocolVersion(protocol) !== undefined);
+      return offered.find(protocol => parseProtocolVersion(protocol) === PROTOCOL_VERSION) ?? offered[0] ?? false;
+    },
+    // Run the same session lookup as requireAuth before accepting the upgrade
+    verifyClient: ({ req }, done) => {
+      // Upgrades skip express, so the request only gets its session from this call
+      const upgrade = req as Request;
+      sessionParser(upgrade, {} as Response, () => {
+        const userId = upgrade.session?.userId;
+        if (!userId) {
+          return done(false, 401, "Unauthorized");
+        }
+        done(true);
+      });
+    },
   });
 
-  wss.on('connection', (ws: WebSocket, req) => {
+  messageBus.subscribe(deliverLocally);
+  await messageBus.start();
+
+  wss.on('connection', async (ws: WebSocket, req) => {
+    // The upgrade was verified, so the session identifies the user
+    const upgrade = req as Request;
+    const userId = upgrade.session.userId!;
     console.log('New WebSocket connection');
 
+    // Clients from before the current protocol are told to reload instead of being served frames they'd misread
+    if (parseProtocolVersion(ws.protocol) !== PROTOCOL_VERSION) {
+      sendToLocalSocket(ws, {
+        type: 'error',
+        code: 'upgrade_required',
+        error: "ChatBook has been updated. Reload the page to keep chatting.",
+      });
+      ws.close(PROTOCOL_UPGRADE_CLOSE_CODE, "Upgrade required");
+      return;
+    }
+
+    const socketId = randomUUID();
+    const sockets = connectedUsers.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    connectedUsers.set(userId, sockets);
+    socketsById.set(socketId, ws);
+    socketIds.set(ws, socketId);
+    socketSessions.set(ws, upgrade.sessionID);
+    lastPongs.set(ws, Date.now());
+    // The close handler waits for this, so a quick disconnect can't leave the row behind
+    const connectionAdded = storage.addConnection(socketId, userId, instanceId);
+
+    // Browsers answer pings on their own, so pongs also keep the user's last seen time fresh.
+    // Nobody is told: last seen only shows once the user goes offline, which is broadcast then.
+    ws.on('pong', async () => {
+      const now = Date.now();
+      lastPongs.set(ws, now);
+      if (now - (lastSeenRefreshes.get(userId) ?? 0) < LAST_SEEN_REFRESH_MS) return;
+      lastSeenRefreshes.set(userId, now);
+      try {
+        await storage.updateUserOnlineStatus(userId, true);
+      } catch (error) {
+        console.error('WebSocket heartbeat error:', error);
+      }
+    });
+
+    const replyError = (code: SocketErrorCode, error: string, requestId?: string, issues?: ZodIssue[]) => {
+      sendToLocalSocket(ws, { type: 'error', code, error, requestId, issues });
+    };
+
     ws.on('message', async (data) => {
+      let requestId: string | undefined;
       try {
-        const message = JSON.parse(data.toString());
-
-        if (message.type === 'auth') {
-          // Authenticate WebSocket connection
-          const { userId } = message;
-          if (userId) {
-            connectedUsers.set(userId, ws);
-            await storage.updateUserOnlineStatus(userId, true);
-            
-            // Broadcast user online status
-            broadcastToAll({
-              type: 'user_online',
-              userId,
-            });
+        const raw = JSON.parse(data.toString());
+        requestId = typeof raw?.requestId === "string" ? raw.requestId : undefined;
+        const parsed = clientFrameSchema.safeParse(raw);
+        if (!parsed.success) {
+          return replyError('invalid_frame', "Invalid frame", requestId, parsed.error.issues);
+        }
+        const message = parsed.data;
+
+        if (message.type === 'chat_message') {
+          // The sender is always the authenticated user, never the client payload
+          const messageData: InsertMessage = {
+            ...message.data,
+            senderId: userId,
+          };
+          // A client resending from its outbox gets the stored message back instead of a duplicate
+          if (messageData.clientId) {
+            const existing = await storage.getMessageByClientId(userId, messageData.clientId);
+            if (existing) {
+              const [sent] = await storage.attachMessageDetails([existing]);
+              return sendToSocket(socketId, { type: 'message_sent', message: sent });
+            }
+          }
+          if (messageData.conversationId) {
+            const member = await storage.getConversationMember(messageData.conversationId, userId);
+            if (!member) {
+              return replyError('rejected', "You're not a member of this group", requestId);
+            }
+          } else {
+            // Respect recipients who only take messages from their contacts
+            // A block looks the same as a missing user, so it isn't revealed
+            const receiver = await storage.getUser(messageData.receiverId!);
+            if (!receiver || await storage.isBlockedBetween(userId, receiver.id)) {
+              return replyError('rejected', "User not found", requestId);
+            }
+            if (receiver.allowMessagesFrom === "contacts" && !(await storage.areContacts(userId, receiver.id))) {
+              return replyError('rejected', `${receiver.displayName} only accepts messages from contacts`, requestId);
+            }
+          }
+          // Attachments must be the sender's own uploads and are always served by id
+          if (messageData.mediaId) {
+            const file = await storage.getMedia(messageData.mediaId);
+            if (!file || file.uploaderId !== userId) {
+              return replyError('rejected', "Attachment not found", requestId);
+            }
+            const attachment = isVoiceType(file.contentType) ? await storage.getAttachment(file.id) : undefined;
+            messageData.messageType = isImageType(file.contentType)
+              ? "image"
+              : isVideoType(file.contentType) ? "video"
+              : isVoiceAttachment(attachment) ? "audio" : "file";
+          } else if (messageData.messageType !== "text") {
+            return replyError('rejected', "This message needs an attachment", requestId);
+          }
+          messageData.imageUrl = messageData.mediaId ? mediaUrl(messageData.mediaId) : undefined;
+          // A reply must quote a message from the same chat
+          if (messageData.replyToId) {
+            const parent = await storage.getMessage(messageData.replyToId);
+            if (!parent || !isSameChat(parent, messageData)) {
+              return replyError('rejected', "The message you replied to isn't in this chat", requestId);
+            }
+          }
+          // Include image details so recipients can size the placeholder right away
+          const { message: stored, created } = await storage.createMessage(messageData);
+          const [savedMessage] = await storage.attachMessageDetails([stored]);
+          // A resend that raced the original past the check above
+          if (!created) {
+            return sendToSocket(socketId, { type: 'message_sent', message: savedMessage });
           }
-        } else if (message.type === 'chat_message') {
-          const messageData = messageSchema.parse(message.data);
-          const savedMessage = await storage.createMessage(messageData);
           
-          // Send to recipient if online
-          const recipientWs = connectedUsers.get(messageData.receiverId);
-          if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify({
+          // Send to the recipient, or every other group member, if online
+          if (messageData.conversationId) {
+            await sendToConversation(messageData.conversationId, {
               type: 'new_message',
               message: savedMessage,
-            }));
-          }
-          
-          // Send confirmation to sender
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'message_sent',
+            }, userId);
+          } else {
+            sendToUser(messageData.receiverId!, {
+              type: 'new_message',
               message: savedMessage,
-            }));
+            });
           }
-        } else if (message.type === 'update_last_seen') {
-          // Update last seen timestamp
-          const { userId } = message;
-          if (userId) {
-            await storage.updateUserOnlineStatus(userId, true);
-            
-            // Broadcast updated status to all connected users
-            broadcastToAll({
-              type: 'user_status_update',
-              userId,
-              lastSeen: new Date(),
-              isOnline: true,
+          
+          // Confirm to the sender on every device they have open
+          sendToUser(userId, {
+            type: 'message_sent',
+            message: savedMessage,
+          });
+        } else if (message.type === 'edit_message') {
+          const result = await editOwnMessage(userId, message.messageId, message.content);
+          if ("error" in result) return replyError('rejected', result.error, requestId);
+        } else if (message.type === 'delete_message') {
+          const result = await deleteOwnMessage(userId, message.messageId);
+          if ("error" in result) return replyError('rejected', result.error, requestId);
+        } else if (message.type === 'toggle_reaction') {
+          const reactions = await toggleReaction(userId, message.messageId, message.emoji);
+          if (!reactions) return replyError('rejected', "Message not found", requestId);
+        } else if (message.type === 'message_delivered') {
+          // The receiver's client acknowledges each direct message it is handed
+          const delivered = await storage.markMessageDelivered(message.messageId, userId);
+          if (delivered) {
+            sendToUser(delivered.senderId, {
+              type: 'message_delivered',
+              messageId: delivered.id,
+              deliveredAt: delivered.deliveredAt!,
             });
           }
+        } else if (message.type === 'resume') {
+          await resumeSession(socketId, userId, message.since);
+        } else if (message.type === 'set_idle') {
+          await storage.setConnectionIdle(socketId, message.idle);
+          if (await storage.refreshUserIdle(userId)) {
+            await broadcastPresence(userId);
+          }
+        } else if (message.type === 'messages_read') {
+          // Sent while the receiver has the chat with senderId open
+          await markDirectMessagesRead(userId, message.senderId);
+        } else if (message.type === 'call_invite') {
+          await startCall(socketId, userId, message.receiverId, message.kind);
+        } else if (
+          message.type === 'call_accept' || message.type === 'call_decline' || message.type === 'call_hangup' ||
+          message.type === 'call_offer' || message.type === 'call_answer' || message.type === 'call_ice_candidate'
+        ) {
+          // The call may be held by another instance
+          publish({ to: "call", callId: message.callId, userId, socketId, message });
         } else if (message.type === 'typing') {
           // Forward typing indicator
-          const recipientWs = connectedUsers.get(message.receiverId);
-          if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify({
+          if (message.conversationId) {
+            const member = await storage.getConversationMember(message.conversationId, userId);
+            if (member) {
+              await sendToConversation(message.conversationId, {
+                type: 'typing',
+                senderId: userId,
+                conversationId: message.conversationId,
+                isTyping: message.isTyping,
+              }, userId);
+            }
+          } else if (message.receiverId && !(await storage.isBlockedBetween(userId, message.receiverId))) {
+            sendToUser(message.receiverId, {
               type: 'typing',
-              senderId: message.senderId,
+              senderId: userId,
               isTyping: message.isTyping,
-            }));
+            });
           }
         }
       } catch (error) {
+        if (error instanceof SyntaxError) {
+          return replyError('invalid_frame', "Frames must be JSON", requestId);
+        }
         console.error('WebSocket message error:', error);
+        replyError('internal', "Something went wrong", requestId);
       }
     });
 
     ws.on('close', async () => {
-      // Find and remove user from connected users
-      for (const [userId, userWs] of Array.from(connectedUsers.entries())) {
-        if (userWs === ws) {
-          connectedUsers.delete(userId);
+      sockets.delete(ws);
+      if (sockets.size === 0 && connectedUsers.get(userId) === sockets) {
+        connectedUsers.delete(userId);
+        lastSeenRefreshes.delete(userId);
+      }
+      socketsById.delete(socketId);
+
+      try {
+        await connectionAdded.catch(() => 0);
+        const remaining = await storage.removeConnection(socketId, userId);
+        await messageBus.publish({ to: "disconnected", userId, socketId, wasLastSocket: remaining === 0 });
+
+        // Presence only goes offline with the user's last socket on any instance
+        if (remaining === 0) {
           await storage.updateUserOnlineStatus(userId, false);
-          
-          // Broadcast user offline status
-          broadcastToAll({
-            type: 'user_offline',
-            userId,
-          });
-          break;
+          await broadcastPresence(userId);
+        } else if (await storage.refreshUserIdle(userId)) {
+          // The tab in use went away and the ones left are idle
+          await broadcastPresence(userId);
         }
+      } catch (error) {
+        console.error('WebSocket close error:', error);
       }
     });
+
+    try {
+      const isFirstSocket = (await connectionAdded) === 1;
+      if (isFirstSocket) {
+        await storage.updateUserOnlineStatus(userId, true);
+      }
+      // A newly opened tab counts as activity, so an away user is back
+      const idleChanged = await storage.refreshUserIdle(userId);
+      if (isFirstSocket || idleChanged) {
+        await broadcastPresence(userId);
+      }
+
+      // Deltas only follow a snapshot, so each connection starts from the current state
+      sendToLocalSocket(ws, { type: 'presence_snapshot', users: await storage.getRelatedUsers(userId) });
+    } catch (error) {
+      console.error('WebSocket connect error:', error);
+    }
   });
 
-  function broadcastToAll(message: any) {
-    connectedUsers.forEach((ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(message));
+  // Keep this instance's connections fresh, and take users offline whose instance went away without saying so
+  const connectionRefresh = setInterval(() => {
+    refreshConnections().catch(error => console.error("Connection refresh error:", error));
+  }, CONNECTION_REFRESH_MS);
+  connectionRefresh.unref();
+
+  const statusExpiry = setInterval(() => {
+    expireStatuses().catch(error => console.error("Status expiry error:", error));
+  }, STATUS_EXPIRY_SWEEP_MS);
+  statusExpiry.unref();
+
+  // Half-open sockets never report closing; terminating them runs the usual close handling
+  const heartbeat = setInterval(() => {
+    const now = Date.now();
+    wss.clients.forEach((ws) => {
+      if (now - (lastPongs.get(ws) ?? now) > heartbeatTimeoutMs) {
+        ws.terminate();
+      } else {
+        ws.ping();
+      }
+    });
+  }, heartbeatTimeoutMs / 2);
+  heartbeat.unref();
+
+  function isImageType(contentType: string) {
+    return (imageMimeTypes as readonly string[]).includes(contentType);
+  }
+
+  function isVoiceType(contentType: string) {
+    return (voiceMimeTypes as readonly string[]).includes(contentType);
+  }
+
+  function isVideoType(contentType: string) {
+    return (videoMimeTypes as readonly string[]).includes(contentType);
+  }
+
+  // Supports the single "bytes=start-end" ranges players send; null means unsatisfiable
+  function parseByteRange(header: string | undefined, size: number) {
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) {
+      return undefined;
+    }
+    const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    return start <= end && start < size ? { start, end } : null;
+  }
+
+  // The declared type is only a hint; the image is checked and cleaned before storing
+  async function storeImage(uploaderId: string, upload: ReceivedFile) {
+    const image = await processImage(upload.tempPath);
+    checkUploadSize(upload, image.contentType);
+
+    // Identical files are stored once, under their content hash
+    const original = await storeContent(image.data, image.contentType);
+    const renditions: Attachment["renditions"] = {};
+    for (const [name, rendition] of Object.entries(image.renditions) as Array<[RenditionName, typeof image.renditions[RenditionName]]>) {
+      const stored = await storeContent(rendition.data, rendition.contentType);
+      renditions[name] = {
+        ...stored,
+        width: rendition.width,
+        height: rendition.height,
+        contentType: rendition.contentType,
+      };
+    }
+
+    const file = await storage.createMedia({
+      uploaderId,
+      hash: original.hash,
+      contentType: image.contentType,
+      size: original.size,
+      fileName: upload.fileName || null,
+    });
+    const attachment = await storage.createAttachment({
+      mediaId: file.id,
+      width: image.width,
+      height: image.height,
+      blurhash: image.blurhash,
+      renditions,
+    });
+    return { file, attachment };
+  }
+
+  // Files other than images are kept byte for byte; identical ones are stored once, under their content hash
+  async function storeFile(uploaderId: string, upload: ReceivedFile) {
+    if (!(await blobStore.exists(upload.hash))) {
+      await blobStore.put(upload.hash, createReadStream(upload.tempPath), {
+        contentType: upload.contentType,
+        size: upload.size,
+      });
+    }
+    return storage.createMedia({
+      uploaderId,
+      hash: upload.hash,
+      contentType: upload.contentType,
+      size: upload.size,
+      fileName: upload.fileName || null,
+    });
+  }
+
+  // A video's poster frame is captured by the browser and uploaded as an image just before the
+  // video; its placeholder and renditions are copied over so the video serves them as its own
+  async function storeVideo(uploaderId: string, upload: ReceivedFile) {
+    const reported = videoMetadataSchema.parse(upload.fields);
+    const probed = await probeVideo(upload.tempPath);
+    checkUploadSize(upload, upload.contentType);
+
+    let poster: Attachment | undefined;
+    if (reported.posterMediaId) {
+      const posterFile = await storage.getMedia(reported.posterMediaId);
+      poster = posterFile?.uploaderId === uploaderId ? await storage.getAttachment(posterFile.id) : undefined;
+      if (!isImageAttachment(poster)) {
+        throw new UploadError("Poster must be an image you uploaded");
       }
+    }
+
+    const file = await storeFile(uploaderId, upload);
+    const attachment = await storage.createAttachment({
+      mediaId: file.id,
+      width: probed?.width ?? reported.width ?? poster?.width,
+      height: probed?.height ?? reported.height ?? poster?.height,
+      durationMs: probed?.durationMs ?? reported.durationMs,
+      blurhash: poster?.blurhash,
+      renditions: poster?.renditions,
     });
+    return { file, attachment };
+  }
+
+  // Delivery doesn't wait for the bus; a failed publish is only logged
+  function publish(event: BusEvent) {
+    messageBus.publish(event).catch(error => console.error("Message bus publish error:", error));
+  }
+
+  function sendToSocket(socketId: string, message: ServerFrame) {
+    publish({ to: "socket", socketId, message });
+  }
+
+  // Reaches every device the user has open, optionally skipping the one the event came from
+  function sendToUser(userId: string, message: ServerFrame, exceptSocketId?: string) {
+    publish({ to: "user", userId, message, exceptSocketId });
+  }
+
+  function sendToLocalSocket(ws: WebSocket, message: ServerFrame) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  // Runs on every instance for every bus event; each one acts on the sockets and calls it holds
+  function deliverLocally(event: BusEvent) {
+    switch (event.to) {
+      case "user":
+        connectedUsers.get(event.userId)?.forEach(ws => {
+          if (socketIds.get(ws) !== event.exceptSocketId) {
+            sendToLocalSocket(ws, event.message);
+          }
+        });
+        break;
+      case "socket": {
+        const ws = socketsById.get(event.socketId);
+        if (ws) {
+          sendToLocalSocket(ws, event.message);
+        }
+        break;
+      }
+      case "users":
+        event.userIds.forEach(userId => {
+          connectedUsers.get(userId)?.forEach(ws => sendToLocalSocket(ws, event.message));
+        });
+        break;
+      case "session":
+        connectedUsers.get(event.userId)?.forEach(ws => {
+          if (socketSessions.get(ws) === event.sessionId) {
+            ws.close();
+          }
+        });
+        break;
+      case "call":
+        if (activeCalls.has(event.callId)) {
+          handleCallFrame(event.userId, event.socketId, event.message)
+            .catch(error => console.error("Call frame error:", error));
+        }
+        break;
+      case "disconnected":
+        endDisconnectedCall(event.userId, event.socketId, event.wasLastSocket)
+          .catch(error => console.error("Call disconnect error:", error));
+        break;
+    }
+  }
+
+  // Connections an instance stops refreshing belong to sockets it can no longer report closed
+  async function refreshConnections() {
+    await storage.touchConnections(instanceId);
+    const goneUserIds = await storage.removeStaleConnections();
+    for (const userId of goneUserIds) {
+      await messageBus.publish({ to: "disconnected", userId, wasLastSocket: true });
+      await storage.updateUserOnlineStatus(userId, false);
+      await broadcastPresence(userId);
+    }
+  }
+
+  // Every instance sweeps, but each expired status is only cleared, and announced, once
+  async function expireStatuses() {
+    const userIds = await storage.clearExpiredStatuses();
+    for (const userId of userIds) {
+      await broadcastPresence(userId, true);
+    }
+  }
+
+  // New group members must exist and have no block either way with whoever adds them;
+  // a block gets the same answer as a missing user
+  async function canAddMembers(adderId: string, userIds: string[]) {
+    const existingIds = new Set(await storage.getExistingUserIds(userIds));
+    const blockedIds = new Set(await storage.getBlockedUserIds(adderId));
+    return userIds.every(id => existingIds.has(id) && !blockedIds.has(id));
+  }
+
+  // Events from a member skip that member and anyone with a block between them
+  async function sendToConversation(conversationId: string, message: ServerFrame, fromUserId?: string) {
+    const memberIds = await storage.getConversationMemberIds(conversationId);
+    const blockedIds = new Set(fromUserId ? await storage.getBlockedUserIds(fromUserId) : []);
+    memberIds.forEach((memberId) => {
+      if (memberId !== fromUserId && !blockedIds.has(memberId)) {
+        sendToUser(memberId, message);
+      }
+    });
+  }
+
+  // Sends an event to everyone who can see the message, including the sender
+  async function sendToMessageParticipants(message: Message, payload: ServerFrame) {
+    if (message.conversationId) {
+      await sendToConversation(message.conversationId, payload);
+    } else {
+      sendToUser(message.senderId, payload);
+      sendToUser(message.receiverId!, payload);
+    }
+  }
+
+  async function canViewMessage(userId: string, message: Message) {
+    if (message.conversationId) {
+      return !!(await storage.getConversationMember(message.conversationId, userId));
+    }
+    return message.senderId === userId || message.receiverId === userId;
+  }
+
+  // Only the sender may change a message, and deleted messages stay deleted
+  async function findEditableMessage(userId: string, messageId: string): Promise<MessageChangeResult> {
+    const message = await storage.getMessage(messageId);
+    if (!message || message.deletedAt) {
+      return { status: 404, error: "Message not found" };
+    }
+    if (message.senderId !== userId) {
+      return { status: 403, error: "You can only change your own messages" };
+    }
+    return { message };
+  }
+
+  async function editOwnMessage(userId: string, messageId: string, content: string): Promise<MessageChangeResult> {
+    const result = await findEditableMessage(userId, messageId);
+    if ("error" in result) return result;
+
+    const message = await storage.editMessage(messageId, content, keepMessageEditHistory);
+    await sendToMessageParticipants(message, {
+      type: 'message_edited',
+      message,
+    });
+    return { message };
+  }
+
+  async function deleteOwnMessage(userId: string, messageId: string): Promise<MessageChangeResult> {
+    const result = await findEditableMessage(userId, messageId);
+    if ("error" in result) return result;
+
+    const message = await storage.deleteMessage(messageId);
+    await sendToMessageParticipants(message, {
+      type: 'message_deleted',
+      message,
+    });
+    return { message };
+  }
+
+  // Adds or removes the user's reaction and shares the message's new reaction list
+  async function toggleReaction(userId: string, messageId: string, emoji: string) {
+    const message = await storage.getMessage(messageId);
+    if (!message || message.deletedAt || !(await canViewMessage(userId, message))) {
+      return undefined;
+    }
+
+    const reactions = await storage.toggleMessageReaction(messageId, userId, emoji);
+    await sendToMessageParticipants(message, {
+      type: 'reaction_updated',
+      messageId,
+      reactions,
+    });
+    return reactions;
+  }
+
+  // Marks everything senderId sent the reader as read and tells the sender which messages it covered
+  async function markDirectMessagesRead(readerId: string, senderId: string) {
+    const read = await storage.markMessagesAsRead(senderId, readerId);
+    if (read.length > 0) {
+      const receipt: ServerFrame = {
+        type: 'messages_read',
+        readerId,
+        messageIds: read.map(message => message.id),
+        readAt: read[0].readAt!,
+      };
+      sendToUser(senderId, receipt);
+      // The reader's other devices clear the same unread messages
+      sendToUser(readerId, receipt);
+    }
+  }
+
+  // Replays what the user's chats went through while this client was disconnected, then
+  // hands it a new cursor. The client merges by message id, so repeats are harmless.
+  async function resumeSession(socketId: string, userId: string, since?: Date) {
+    const cursor = new Date();
+    if (!since) {
+      return sendToSocket(socketId, { type: 'resumed', cursor, truncated: false });
+    }
+
+    const from = new Date(since.getTime() - RESUME_OVERLAP_MS);
+    const changed = await storage.getMessagesChangedSince(userId, from, RESUME_REPLAY_LIMIT + 1);
+    const truncated = changed.length > RESUME_REPLAY_LIMIT;
+    // Group messages skip members with a block either way, as they did live
+    const blockedIds = new Set(await storage.getBlockedUserIds(userId));
+    const replay = await storage.attachMessageDetails(
+      changed.slice(0, RESUME_REPLAY_LIMIT).filter(message => !(message.conversationId && blockedIds.has(message.senderId)))
+    );
+
+    for (const message of replay) {
+      if (message.createdAt! > from) {
+        sendToSocket(socketId, { type: message.senderId === userId ? 'message_sent' : 'new_message', message });
+        continue;
+      }
+      if (message.deletedAt && message.deletedAt > from) {
+        sendToSocket(socketId, { type: 'message_deleted', message });
+      } else if (message.editedAt && message.editedAt > from) {
+        sendToSocket(socketId, { type: 'message_edited', message });
+      }
+      if (message.readAt && message.readAt > from) {
+        sendToSocket(socketId, {
+          type: 'messages_read',
+          readerId: message.receiverId!,
+          messageIds: [message.id],
+          readAt: message.readAt,
+        });
+      } else if (message.deliveredAt && message.deliveredAt > from) {
+        sendToSocket(socketId, {
+          type: 'message_delivered',
+          messageId: message.id,
+          deliveredAt: message.deliveredAt,
+        });
+      }
+    }
+    sendToSocket(socketId, { type: 'resumed', cursor, truncated });
+  }
+
+  function findActiveCall(userId: string) {
+    return Array.from(activeCalls.values()).find(({ call }) => call.callerId === userId || call.calleeId === userId);
+  }
+
+  async function handleCallFrame(userId: string, socketId: string, message: CallFrame) {
+    if (message.type === 'call_accept') {
+      await acceptCall(socketId, userId, message.callId);
+    } else if (message.type === 'call_decline' || message.type === 'call_hangup') {
+      await hangUpCall(userId, message.callId, message.type === 'call_decline');
+    } else {
+      relayCallSignal(socketId, message);
+    }
+  }
+
+  // Losing a socket drops the call it was carrying, and a ringing call once no device is left to answer
+  async function endDisconnectedCall(userId: string, socketId: string | undefined, wasLastSocket: boolean) {
+    const active = Array.from(activeCalls.values()).find(({ callerSocketId, calleeSocketId }) =>
+      socketId !== undefined && (callerSocketId === socketId || calleeSocketId === socketId)
+    ) ?? (wasLastSocket ? findActiveCall(userId) : undefined);
+    if (active) {
+      await finishCall(active.call, active.call.status === "active" ? "ended" : "missed");
+    }
+  }
+
+  // Rings the callee, or logs a missed call straight away when they can't pick up.
+  // Only this instance's calls are known here; a callee busy on another instance declines on their side.
+  async function startCall(callerSocketId: string, callerId: string, calleeId: string, kind: CallKind) {
+    const callee = await storage.getUser(calleeId);
+    if (!callee || callee.id === callerId || await storage.isBlockedBetween(callerId, callee.id)) {
+      return sendToSocket(callerSocketId, { type: 'call_failed', error: "User not found" });
+    }
+    if (callee.allowMessagesFrom === "contacts" && !(await storage.areContacts(callerId, callee.id))) {
+      return sendToSocket(callerSocketId, { type: 'call_failed', error: `${callee.displayName} only accepts calls from contacts` });
+    }
+    if (findActiveCall(callerId)) {
+      return sendToSocket(callerSocketId, { type: 'call_failed', error: "You are already on a call" });
+    }
+
+    const call = await storage.createCall(callerId, callee.id, kind);
+    const isOnline = (await storage.countConnections(callee.id)) > 0;
+    // Do-not-disturb doesn't ring; the call is only logged as missed
+    const doNotDisturb = callee.presence === "dnd";
+    if (!isOnline || doNotDisturb || findActiveCall(callee.id)) {
+      sendToSocket(callerSocketId, {
+        type: 'call_failed',
+        callId: call.id,
+        error: !isOnline
+          ? `${callee.displayName} is offline`
+          : doNotDisturb
+            ? `${callee.displayName} has do not disturb on`
+            : `${callee.displayName} is on another call`,
+      });
+      return finishCall(call, "missed");
+    }
+
+    const caller = await storage.getUser(callerId);
+    activeCalls.set(call.id, {
+      call,
+      callerSocketId,
+      ringTimeout: setTimeout(() => {
+        finishCall(call, "missed").catch(error => console.error("Call timeout error:", error));
+      }, CALL_RING_TIMEOUT_MS),
+    });
+    sendToSocket(callerSocketId, { type: 'call_ringing', call });
+    // Every device the callee has open rings
+    sendToUser(callee.id, { type: 'call_incoming', call, caller: toPublicUser(caller!) });
+  }
+
+  async function acceptCall(calleeSocketId: string, userId: string, callId: string) {
+    const active = activeCalls.get(callId);
+    if (!active || active.call.calleeId !== userId || active.call.status !== "ringing") {
+      return;
+    }
+    clearTimeout(active.ringTimeout);
+    active.calleeSocketId = calleeSocketId;
+    active.call = await storage.updateCall(callId, { status: "active", answeredAt: new Date() });
+    // The callee's other devices stop ringing: the call was answered elsewhere
+    sendToUser(userId, { type: 'call_ended', callId, status: active.call.status }, calleeSocketId);
+    // The caller sends the offer once the callee is ready for it
+    sendToSocket(active.callerSocketId, { type: 'call_accepted', callId });
+  }
+
+  // Either side can hang up; the callee turning down a ringing call declines it
+  async function hangUpCall(userId: string, callId: string, decline: boolean) {
+    const active = activeCalls.get(callId);
+    if (!active || (active.call.callerId !== userId && active.call.calleeId !== userId)) {
+      return;
+    }
+    const status: CallStatus = active.call.status === "active"
+      ? "ended"
+      : decline && active.call.calleeId === userId ? "declined" : "missed";
+    await finishCall(active.call, status);
+  }
+
+  // Closes the call on both sides and logs it in their direct chat
+  async function finishCall(call: Call, status: CallStatus) {
+    clearTimeout(activeCalls.get(call.id)?.ringTimeout);
+    activeCalls.delete(call.id);
+
+    const finished = await storage.updateCall(call.id, { status, endedAt: new Date() });
+    sendToUser(call.callerId, { type: 'call_ended', callId: call.id, status });
+    sendToUser(call.calleeId, { type: 'call_ended', callId: call.id, status });
+
+    const [message] = await storage.attachMessageDetails([await storage.createCallMessage(finished)]);
+    sendToUser(call.callerId, { type: 'message_sent', message });
+    sendToUser(call.calleeId, { type: 'new_message', message });
+  }
+
+  // Offers, answers and ICE candidates pass straight through to the other side of an answered call
+  function relayCallSignal(socketId: string, message: Extract<CallFrame, { type: 'call_offer' | 'call_answer' | 'call_ice_candidate' }>) {
+    const active = activeCalls.get(message.callId);
+    if (!active?.calleeSocketId || active.call.status !== "active") {
+      return;
+    }
+    const { callerSocketId, calleeSocketId } = active;
+    if (socketId !== callerSocketId && socketId !== calleeSocketId) {
+      return;
+    }
+    const peerSocketId = socketId === callerSocketId ? calleeSocketId : callerSocketId;
+    if (message.type === 'call_ice_candidate') {
+      sendToSocket(peerSocketId, { type: message.type, callId: message.callId, candidate: message.candidate });
+    } else {
+      sendToSocket(peerSocketId, { type: message.type, callId: message.callId, sdp: message.sdp });
+    }
+  }
+
+  // Presence only goes to users who share a chat or contact with the subject, and never across a block.
+  // With includeSelf the user's own tabs hear too, for changes they didn't make themselves.
+  async function broadcastPresence(userId: string, includeSelf = false) {
+    const [user, relatedIds] = await Promise.all([storage.getUser(userId), storage.getRelatedUserIds(userId)]);
+    const userIds = includeSelf ? [userId, ...relatedIds] : relatedIds;
+    if (!user || userIds.length === 0) return;
+
+    const { isOnline, presence, isIdle, lastSeen, status, statusEmoji, statusExpiresAt } = toPublicUser(user);
+    publish({
+      to: "users",
+      userIds,
+      message: {
+        type: 'presence_updated',
+        userId,
+        presence: { isOnline, presence, isIdle, lastSeen, status, statusEmoji, statusExpiresAt },
+      },
+    });
+  }
+
+  async function sendPresenceSnapshot(userId: string) {
+    sendToUser(userId, { type: 'presence_snapshot', users: await storage.getRelatedUsers(userId) });
   }
 
   return httpServer;
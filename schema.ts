@@ -1,12 +1,17 @@
-import { sql, relations } from "drizzle-orm";
+import { sql, relations, type SQLWrapper } from "drizzle-orm";
 import {
   pgTable,
   varchar,
   text,
   timestamp,
   boolean,
+  integer,
+  serial,
   jsonb,
   index,
+  uniqueIndex,
+  primaryKey,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -22,6 +27,36 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Open WebSocket connections on every server instance. Each instance refreshes seenAt
+// for its own rows, so rows left behind by an instance that died go stale and are swept.
+export const socketConnections = pgTable(
+  "socket_connections",
+  {
+    id: varchar("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    instanceId: varchar("instance_id").notNull(),
+    connectedAt: timestamp("connected_at").defaultNow(),
+    seenAt: timestamp("seen_at").defaultNow().notNull(),
+    // No input in this tab for a while; a user whose sockets are all idle shows as away
+    idle: boolean("idle").notNull().default(false),
+  },
+  (table) => [
+    index("IDX_socket_connections_user").on(table.userId),
+    index("IDX_socket_connections_instance").on(table.instanceId),
+  ],
+);
+
+// Message bus events too large for a NOTIFY payload; listeners read them back by id
+export const busEvents = pgTable(
+  "bus_events",
+  {
+    id: serial("id").primaryKey(),
+    payload: jsonb("payload").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_bus_events_created").on(table.createdAt)],
+);
+
 // Users table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -30,31 +65,250 @@ export const users = pgTable("users", {
   displayName: varchar("display_name", { length: 100 }).notNull(),
   avatar: text("avatar"),
   status: varchar("status", { length: 200 }).default(""),
+  statusEmoji: varchar("status_emoji", { length: 32 }),
+  // A background job clears the custom status (text and emoji) once this passes
+  statusExpiresAt: timestamp("status_expires_at"),
   isOnline: boolean("is_online").default(false),
+  // What the user picked; invisible users look offline to everyone else
+  presence: varchar("presence", { length: 20 }).notNull().default("online").$type<PresenceState>(),
+  isIdle: boolean("is_idle").default(false),
+  allowMessagesFrom: varchar("allow_messages_from", { length: 20 }).default("everyone"), // everyone, contacts
   lastSeen: timestamp("last_seen").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Prefix search for the user directory
+  index("IDX_users_username_prefix").using("btree", sql`lower(${table.username}) text_pattern_ops`),
+  index("IDX_users_display_name_prefix").using("btree", sql`lower(${table.displayName}) text_pattern_ops`),
+]);
+
+// Contacts table: one row per pair of users, created by a friend request
+export const contacts = pgTable(
+  "contacts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    requesterId: varchar("requester_id").notNull().references(() => users.id),
+    addresseeId: varchar("addressee_id").notNull().references(() => users.id),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted, declined
+    createdAt: timestamp("created_at").defaultNow(),
+    respondedAt: timestamp("responded_at"),
+  },
+  (table) => [
+    uniqueIndex("IDX_contacts_pair").on(table.requesterId, table.addresseeId),
+    index("IDX_contacts_addressee").on(table.addresseeId),
+  ],
+);
+
+// Blocked users: the blocker no longer receives messages, typing or presence from the blocked user
+export const userBlocks = pgTable(
+  "user_blocks",
+  {
+    blockerId: varchar("blocker_id").notNull().references(() => users.id),
+    blockedId: varchar("blocked_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.blockerId, table.blockedId] }),
+    index("IDX_user_blocks_blocked").on(table.blockedId),
+  ],
+);
+
+// Group conversations table
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  avatar: text("avatar"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Group conversation membership table
+export const conversationMembers = pgTable(
+  "conversation_members",
+  {
+    conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    role: varchar("role", { length: 20 }).notNull().default("member"), // owner, admin, member
+    lastReadAt: timestamp("last_read_at").defaultNow(),
+    joinedAt: timestamp("joined_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.conversationId, table.userId] }),
+    index("IDX_conversation_members_user").on(table.userId),
+  ],
+);
+
+// Muted chats: a direct chat sets mutedUserId, a group sets conversationId
+export const chatMutes = pgTable(
+  "chat_mutes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    mutedUserId: varchar("muted_user_id").references(() => users.id),
+    conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_chat_mutes_user_muted_user").on(table.userId, table.mutedUserId),
+    uniqueIndex("IDX_chat_mutes_user_conversation").on(table.userId, table.conversationId),
+  ],
+);
+
+// Uploaded files; the bytes live in the blob store under their SHA-256 hash,
+// so identical uploads share one blob while each upload keeps its own row
+export const media = pgTable(
+  "media",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    uploaderId: varchar("uploader_id").notNull().references(() => users.id),
+    hash: varchar("hash", { length: 64 }).notNull(),
+    contentType: varchar("content_type", { length: 100 }).notNull(),
+    size: integer("size").notNull(),
+    fileName: varchar("file_name", { length: 255 }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_media_hash").on(table.hash)],
+);
+
+// Details of an uploaded image, recording or video, plus any smaller renditions kept alongside the original.
+// A video's renditions are resized copies of its poster frame.
+export const attachments = pgTable("attachments", {
+  mediaId: varchar("media_id").primaryKey().references(() => media.id, { onDelete: "cascade" }),
+  // Images and videos
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: varchar("blurhash", { length: 100 }),
+  renditions: jsonb("renditions").$type<Partial<Record<RenditionName, Rendition>>>().notNull().default({}),
+  // Recordings and videos
+  durationMs: integer("duration_ms"),
+  waveform: jsonb("waveform").$type<number[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per call attempt, answered or not
+export const calls = pgTable("calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callerId: varchar("caller_id").notNull().references(() => users.id),
+  calleeId: varchar("callee_id").notNull().references(() => users.id),
+  kind: varchar("kind", { length: 10 }).notNull().$type<CallKind>(),
+  status: varchar("status", { length: 20 }).notNull().default("ringing").$type<CallStatus>(),
+  answeredAt: timestamp("answered_at"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_calls_caller_created").on(table.callerId, table.createdAt),
+  index("IDX_calls_callee_created").on(table.calleeId, table.createdAt),
+]);
+
+// What full-text search matches message content against; the search index and the
+// search query must both use this expression for the index to be used
+export function messageSearchDocument(content: SQLWrapper) {
+  return sql`to_tsvector('english', ${content})`;
+}
+
 // Messages table
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   senderId: varchar("sender_id").notNull().references(() => users.id),
-  receiverId: varchar("receiver_id").notNull().references(() => users.id),
+  // Direct messages set receiverId, group messages set conversationId
+  receiverId: varchar("receiver_id").references(() => users.id),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
-  messageType: varchar("message_type", { length: 20 }).default("text"), // text, image
+  messageType: varchar("message_type", { length: 20 }).default("text"), // text, image, file, audio, video, call
   imageUrl: text("image_url"),
-  isRead: boolean("is_read").default(false),
+  mediaId: varchar("media_id").references(() => media.id),
+  // Set on the system message that logs a finished call
+  callId: varchar("call_id").references(() => calls.id),
+  replyToId: varchar("reply_to_id").references((): AnyPgColumn => messages.id),
+  // Chosen by the sender's client so a message it sends again isn't stored twice
+  clientId: varchar("client_id", { length: 64 }),
+  // Direct messages only: when the receiver's client got the message, and when they saw it
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // content is cleared, the row stays as a tombstone
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_messages_sender_receiver_created").on(table.senderId, table.receiverId, table.createdAt),
+  index("IDX_messages_conversation_created").on(table.conversationId, table.createdAt),
+  index("IDX_messages_media").on(table.mediaId),
+  uniqueIndex("IDX_messages_sender_client").on(table.senderId, table.clientId),
+  // Full-text search over message content
+  index("IDX_messages_content_search").using("gin", messageSearchDocument(table.content)),
+]);
+
+// Previous versions of edited messages
+export const messageEdits = pgTable(
+  "message_edits",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    messageId: varchar("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    editedAt: timestamp("edited_at").defaultNow(),
+  },
+  (table) => [index("IDX_message_edits_message").on(table.messageId)],
+);
+
+// Emoji reactions, one row per user per emoji on a message
+export const messageReactions = pgTable(
+  "message_reactions",
+  {
+    messageId: varchar("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    emoji: varchar("emoji", { length: 32 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.messageId, table.userId, table.emoji] })],
+);
 
 // Relations
+export const contactsRelations = relations(contacts, ({ one }) => ({
+  requester: one(users, {
+    fields: [contacts.requesterId],
+    references: [users.id],
+    relationName: "requester",
+  }),
+  addressee: one(users, {
+    fields: [contacts.addresseeId],
+    references: [users.id],
+    relationName: "addressee",
+  }),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   sentMessages: many(messages, { relationName: "sender" }),
   receivedMessages: many(messages, { relationName: "receiver" }),
+  conversationMemberships: many(conversationMembers),
+  sentContactRequests: many(contacts, { relationName: "requester" }),
+  receivedContactRequests: many(contacts, { relationName: "addressee" }),
+  outgoingCalls: many(calls, { relationName: "caller" }),
+  incomingCalls: many(calls, { relationName: "callee" }),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [conversations.createdBy],
+    references: [users.id],
+  }),
+  members: many(conversationMembers),
+  messages: many(messages),
+}));
+
+export const conversationMembersRelations = relations(conversationMembers, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationMembers.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationMembers.userId],
+    references: [users.id],
+  }),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
+  edits: many(messageEdits),
+  reactions: many(messageReactions),
   sender: one(users, {
     fields: [messages.senderId],
     references: [users.id],
@@ -65,12 +319,104 @@ export const messagesRelations = relations(messages, ({ one }) => ({
     references: [users.id],
     relationName: "receiver",
   }),
+  conversation: one(conversations, {
+    fields: [messages.conversationId],
+    references: [conversations.id],
+  }),
+  media: one(media, {
+    fields: [messages.mediaId],
+    references: [media.id],
+  }),
+  call: one(calls, {
+    fields: [messages.callId],
+    references: [calls.id],
+  }),
+  replyTo: one(messages, {
+    fields: [messages.replyToId],
+    references: [messages.id],
+    relationName: "replies",
+  }),
+}));
+
+export const callsRelations = relations(calls, ({ one, many }) => ({
+  caller: one(users, {
+    fields: [calls.callerId],
+    references: [users.id],
+    relationName: "caller",
+  }),
+  callee: one(users, {
+    fields: [calls.calleeId],
+    references: [users.id],
+    relationName: "callee",
+  }),
+  messages: many(messages),
+}));
+
+export const messageReactionsRelations = relations(messageReactions, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageReactions.messageId],
+    references: [messages.id],
+  }),
+  user: one(users, {
+    fields: [messageReactions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mediaRelations = relations(media, ({ one, many }) => ({
+  uploader: one(users, {
+    fields: [media.uploaderId],
+    references: [users.id],
+  }),
+  attachment: one(attachments),
+  messages: many(messages),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  media: one(media, {
+    fields: [attachments.mediaId],
+    references: [media.id],
+  }),
+}));
+
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [userBlocks.blockerId],
+    references: [users.id],
+  }),
+  blocked: one(users, {
+    fields: [userBlocks.blockedId],
+    references: [users.id],
+  }),
+}));
+
+export const chatMutesRelations = relations(chatMutes, ({ one }) => ({
+  user: one(users, {
+    fields: [chatMutes.userId],
+    references: [users.id],
+  }),
+  conversation: one(conversations, {
+    fields: [chatMutes.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const messageEditsRelations = relations(messageEdits, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageEdits.messageId],
+    references: [messages.id],
+  }),
 }));
 
 // Schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   isOnline: true,
+  presence: true,
+  isIdle: true,
+  statusEmoji: true,
+  statusExpiresAt: true,
+  allowMessagesFrom: true,
   lastSeen: true,
   createdAt: true,
   updatedAt: true,
@@ -87,23 +433,484 @@ export const registerSchema = insertUserSchema.extend({
   displayName: z.string().min(1, "Display name is required").max(100),
 });
 
-export const messageSchema = createInsertSchema(messages).omit({
+export const messageTypes = ["text", "image", "file", "audio", "video", "call"] as const;
+
+const messageFieldsSchema = createInsertSchema(messages).omit({
   id: true,
+  callId: true,
   createdAt: true,
-  isRead: true,
+  deliveredAt: true,
+  readAt: true,
+  editedAt: true,
+  deletedAt: true,
 }).extend({
+  receiverId: z.string().optional(),
+  conversationId: z.string().optional(),
   content: z.string().min(1, "Message cannot be empty").max(1000),
-  messageType: z.enum(["text", "image"]).default("text"),
+  messageType: z.enum(messageTypes).default("text"),
   imageUrl: z.string().optional(),
+  mediaId: z.string().optional(),
+  replyToId: z.string().optional(),
+  clientId: z.string().max(64).optional(),
+});
+
+const hasChatTarget = (data: { receiverId?: string; conversationId?: string }) =>
+  !!data.receiverId !== !!data.conversationId;
+
+export const messageSchema = messageFieldsSchema.refine(hasChatTarget, {
+  message: "Message needs either a receiver or a conversation",
+});
+
+interface ChatScope {
+  senderId: string;
+  receiverId?: string | null;
+  conversationId?: string | null;
+}
+
+// Whether two messages belong to the same direct chat or group, e.g. a reply and its parent
+export function isSameChat(a: ChatScope, b: ChatScope): boolean {
+  if (a.conversationId || b.conversationId) {
+    return a.conversationId === b.conversationId;
+  }
+  const participants = (message: ChatScope) => [message.senderId, message.receiverId ?? ""].sort().join(":");
+  return participants(a) === participants(b);
+}
+
+export const editMessageSchema = z.object({
+  content: z.string().min(1, "Message cannot be empty").max(1000),
+});
+
+const emojiPattern = new RegExp("^\\p{Extended_Pictographic}", "u");
+
+export const reactionSchema = z.object({
+  emoji: z.string().max(32).refine((value) => emojiPattern.test(value), {
+    message: "Reaction must be an emoji",
+  }),
+});
+
+// Message history is paged by message id; pages are ordered by (createdAt, id)
+export const MESSAGE_PAGE_SIZE = 50;
+
+export const messageHistoryQuerySchema = z.object({
+  before: z.string().optional(),
+  after: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(MESSAGE_PAGE_SIZE),
+}).refine((data) => !(data.before && data.after), {
+  message: "Use either before or after, not both",
+});
+
+// Sent by the client whenever its socket opens, with the newest server time it has seen
+export const resumeSchema = z.object({
+  since: z.coerce.date().optional(),
+});
+
+export const USER_SEARCH_PAGE_SIZE = 20;
+
+export const userSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(USER_SEARCH_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search for at least 2 characters").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Search snippets wrap matched words in these markers so clients can
+// highlight them without rendering message content as HTML
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+export const imageMimeTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+
+// Containers browsers record voice messages in with MediaRecorder
+export const voiceMimeTypes = ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg", "audio/wav"] as const;
+export const VOICE_MESSAGE_MAX_MS = 5 * 60 * 1000;
+export const WAVEFORM_BARS = 48;
+
+// Sent as form fields next to a voice recording; the waveform is a JSON array of peaks from 0 to 1
+export const voiceMetadataSchema = z.object({
+  durationMs: z.coerce.number().int().positive().max(VOICE_MESSAGE_MAX_MS),
+  waveform: z
+    .string()
+    .transform((value, context) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: "Waveform must be JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(z.number().min(0).max(1)).max(256)),
+});
+
+export const videoMimeTypes = ["video/mp4", "video/webm", "video/quicktime", "video/ogg"] as const;
+
+// Sent as form fields next to a video. The poster is an image uploaded just before the video;
+// duration and size are what the browser saw, used when the server can't probe the file itself.
+export const videoMetadataSchema = z.object({
+  posterMediaId: z.string().optional(),
+  durationMs: z.coerce.number().int().positive().optional(),
+  width: z.coerce.number().int().positive().max(16384).optional(),
+  height: z.coerce.number().int().positive().max(16384).optional(),
+});
+
+// Upload size limits in bytes, keyed by MIME type or by a prefix ending in "/";
+// "*" covers everything else. The server can override these through UPLOAD_LIMITS.
+export const DEFAULT_UPLOAD_LIMITS: Record<string, number> = {
+  "image/": 10 * 1024 * 1024,
+  "video/": 100 * 1024 * 1024,
+  "*": 25 * 1024 * 1024,
+};
+
+// Executables and scripts are refused whatever MIME type the browser reports
+export const DEFAULT_BLOCKED_EXTENSIONS = [
+  "apk", "app", "bat", "cmd", "com", "cpl", "dll", "exe", "hta", "jar", "js", "jse",
+  "lnk", "msi", "msp", "ps1", "reg", "scr", "sh", "vb", "vbe", "vbs", "ws", "wsf",
+];
+
+export function uploadLimitFor(contentType: string, limits: Record<string, number> = DEFAULT_UPLOAD_LIMITS) {
+  const prefix = contentType.slice(0, contentType.indexOf("/") + 1);
+  return limits[contentType] ?? limits[prefix] ?? limits["*"];
+}
+
+export function fileExtension(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
+// Longest edge of each resized copy made from an uploaded image
+export const RENDITION_SIZES = {
+  thumb: 320,
+  medium: 1280,
+} as const;
+
+export type RenditionName = keyof typeof RENDITION_SIZES;
+
+export interface Rendition {
+  hash: string;
+  size: number;
+  width: number;
+  height: number;
+  contentType: string;
+}
+
+export function mediaUrl(mediaId: string, rendition?: RenditionName) {
+  return rendition ? `/api/media/${mediaId}?size=${rendition}` : `/api/media/${mediaId}`;
+}
+
+export const callKinds = ["audio", "video"] as const;
+// ringing -> active -> ended, or ringing -> missed/declined when nobody picks up
+export const callStatuses = ["ringing", "active", "ended", "missed", "declined"] as const;
+export const CALL_RING_TIMEOUT_MS = 45 * 1000;
+
+export const callInviteSchema = z.object({
+  receiverId: z.string().min(1),
+  kind: z.enum(callKinds),
 });
 
+function formatCallDuration(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// The text of the system message that logs a finished call
+export function describeCall(call: Pick<Call, "kind" | "status" | "answeredAt" | "endedAt">) {
+  const kind = call.kind === "video" ? "video call" : "voice call";
+  if (call.status === "declined") return `Declined ${kind}`;
+  if (call.status !== "ended" || !call.answeredAt || !call.endedAt) return `Missed ${kind}`;
+  const duration = new Date(call.endedAt).getTime() - new Date(call.answeredAt).getTime();
+  return `${kind[0].toUpperCase()}${kind.slice(1)} ended, ${formatCallDuration(duration)}`;
+}
+
+export const contactRequestSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export const messagePrivacyOptions = ["everyone", "contacts"] as const;
+
+export const presenceStates = ["online", "away", "dnd", "invisible"] as const;
+
+// How a user appears to others: idle users are away unless they chose do-not-disturb
+export function visiblePresence(user: Pick<PublicUser, "isOnline" | "presence" | "isIdle">): VisiblePresence {
+  if (!user.isOnline || user.presence === "invisible") return "offline";
+  if (user.presence === "dnd") return "dnd";
+  return user.presence === "away" || user.isIdle ? "away" : "online";
+}
+
+// Limits match the users columns, so overlong values are a 400 rather than a database error.
+// A null statusExpiresAt keeps the custom status until it's changed.
+export const updateProfileSchema = z.object({
+  displayName: z.string().min(1).max(100).optional(),
+  avatar: z.string().nullable().optional(),
+  status: z.string().max(200).optional(),
+  statusEmoji: z.string().max(32).nullable().optional(),
+  statusExpiresAt: z.coerce.date().nullable().optional(),
+  presence: z.enum(presenceStates).optional(),
+  allowMessagesFrom: z.enum(messagePrivacyOptions).optional(),
+});
+
+export const muteChatSchema = z.object({
+  receiverId: z.string().optional(),
+  conversationId: z.string().optional(),
+  muted: z.boolean(),
+}).refine((data) => !!data.receiverId !== !!data.conversationId, {
+  message: "Mute needs either a user or a conversation",
+});
+
+export const conversationRoles = ["owner", "admin", "member"] as const;
+
+export const createConversationSchema = z.object({
+  name: z.string().min(1, "Group name is required").max(100),
+  avatar: z.string().optional(),
+  memberIds: z.array(z.string()).min(1, "Add at least one member").max(100),
+});
+
+export const updateConversationSchema = z.object({
+  name: z.string().min(1, "Group name is required").max(100).optional(),
+  avatar: z.string().nullable().optional(),
+});
+
+export const addConversationMembersSchema = z.object({
+  userIds: z.array(z.string()).min(1).max(100),
+});
+
+export const updateConversationMemberSchema = z.object({
+  role: z.enum(["admin", "member"]),
+});
+
+// WebSocket protocol. The client names the version it speaks as a subprotocol, built by
+// protocolName(PROTOCOL_VERSION) as "chatbook.vN", when opening the socket; the server turns
+// other versions away with an upgrade_required error.
+export const PROTOCOL_VERSION = 4;
+// Sent with upgrade_required so the client stops reconnecting
+export const PROTOCOL_UPGRADE_CLOSE_CODE = 4426;
+
+export function protocolName(version: number) {
+  return `chatbook.v${version}`;
+}
+
+export function parseProtocolVersion(protocol: string): number | undefined {
+  const match = /^chatbook\.v(\d+)$/.exec(protocol);
+  return match ? Number(match[1]) : undefined;
+}
+
+export const socketErrorCodes = ["invalid_frame", "upgrade_required", "rejected", "internal"] as const;
+
+// Any client frame may carry a requestId; errors it causes are sent back with the same id
+function clientFrame<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z.object({ type: z.literal(type), requestId: z.string().max(64).optional(), ...shape });
+}
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullish(),
+  sdpMLineIndex: z.number().int().nullish(),
+  usernameFragment: z.string().nullish(),
+});
+const sdpSchema = z.string().max(100000);
+
+export const clientFrameSchema = z.discriminatedUnion("type", [
+  clientFrame("chat_message", {
+    // The server fills in the sender and the media URL
+    data: messageFieldsSchema.omit({ senderId: true, imageUrl: true }).refine(hasChatTarget, {
+      message: "Message needs either a receiver or a conversation",
+    }),
+  }),
+  clientFrame("edit_message", { messageId: z.string(), ...editMessageSchema.shape }),
+  clientFrame("delete_message", { messageId: z.string() }),
+  clientFrame("toggle_reaction", { messageId: z.string(), ...reactionSchema.shape }),
+  clientFrame("typing", {
+    receiverId: z.string().optional(),
+    conversationId: z.string().optional(),
+    isTyping: z.boolean(),
+  }),
+  clientFrame("message_delivered", { messageId: z.string() }),
+  clientFrame("messages_read", { senderId: z.string() }),
+  clientFrame("resume", resumeSchema.shape),
+  clientFrame("set_idle", { idle: z.boolean() }),
+  clientFrame("call_invite", callInviteSchema.shape),
+  clientFrame("call_accept", { callId: z.string() }),
+  clientFrame("call_decline", { callId: z.string() }),
+  clientFrame("call_hangup", { callId: z.string() }),
+  clientFrame("call_offer", { callId: z.string(), sdp: sdpSchema }),
+  clientFrame("call_answer", { callId: z.string(), sdp: sdpSchema }),
+  clientFrame("call_ice_candidate", { callId: z.string(), candidate: iceCandidateSchema }),
+]);
+
+function serverFrame<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z.object({ type: z.literal(type), ...shape });
+}
+
+// The parts of a user that change with their presence, as other people see them
+const presenceFieldsSchema = z.object({
+  isOnline: z.boolean().nullable(),
+  presence: z.enum(presenceStates),
+  isIdle: z.boolean().nullable(),
+  lastSeen: z.coerce.date().nullable(),
+  status: z.string().nullable(),
+  statusEmoji: z.string().nullable(),
+  statusExpiresAt: z.coerce.date().nullable(),
+});
+
+// Records the server builds from the database are passed through as they are
+const chatMessagePayload = z.custom<ChatMessage>((value) => typeof value === "object" && value !== null);
+
+export const serverFrameSchema = z.discriminatedUnion("type", [
+  serverFrame("new_message", { message: chatMessagePayload }),
+  serverFrame("message_sent", { message: chatMessagePayload }),
+  serverFrame("message_edited", { message: chatMessagePayload }),
+  serverFrame("message_deleted", { message: chatMessagePayload }),
+  serverFrame("reaction_updated", { messageId: z.string(), reactions: z.custom<MessageReaction[]>(Array.isArray) }),
+  serverFrame("message_delivered", { messageId: z.string(), deliveredAt: z.coerce.date() }),
+  // Direct messages list what was read; a group read only names the conversation
+  serverFrame("messages_read", {
+    readerId: z.string(),
+    messageIds: z.array(z.string()).optional(),
+    readAt: z.coerce.date().optional(),
+    conversationId: z.string().optional(),
+  }),
+  serverFrame("resumed", { cursor: z.coerce.date(), truncated: z.boolean() }),
+  serverFrame("typing", { senderId: z.string(), conversationId: z.string().optional(), isTyping: z.boolean() }),
+  // Presence of everyone who shares a chat or contact with the user, sent once per connection
+  serverFrame("presence_snapshot", { users: z.custom<PublicUser[]>(Array.isArray) }),
+  serverFrame("presence_updated", { userId: z.string(), presence: presenceFieldsSchema }),
+  serverFrame("conversation_updated", { conversationId: z.string() }),
+  serverFrame("friend_request", { contact: z.custom<Contact>(), user: z.custom<PublicUser>() }),
+  serverFrame("contact_updated", { contact: z.custom<Contact>().optional() }),
+  serverFrame("error", {
+    code: z.enum(socketErrorCodes),
+    error: z.string(),
+    requestId: z.string().optional(),
+    issues: z.custom<z.ZodIssue[]>().optional(),
+  }),
+  serverFrame("call_ringing", { call: z.custom<Call>() }),
+  serverFrame("call_incoming", { call: z.custom<Call>(), caller: z.custom<PublicUser>() }),
+  serverFrame("call_accepted", { callId: z.string() }),
+  serverFrame("call_ended", { callId: z.string(), status: z.enum(callStatuses) }),
+  serverFrame("call_failed", { callId: z.string().optional(), error: z.string() }),
+  serverFrame("call_offer", { callId: z.string(), sdp: z.string() }),
+  serverFrame("call_answer", { callId: z.string(), sdp: z.string() }),
+  serverFrame("call_ice_candidate", { callId: z.string(), candidate: iceCandidateSchema }),
+]);
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessageReaction = typeof messageReactions.$inferSelect;
 export type InsertMessage = z.infer<typeof messageSchema>;
+export type MessageType = typeof messageTypes[number];
+export type MessageHistoryQuery = z.infer<typeof messageHistoryQuerySchema>;
+export type MessageSearchQuery = z.infer<typeof messageSearchQuerySchema>;
+export type UserSearchQuery = z.infer<typeof userSearchQuerySchema>;
+export type Contact = typeof contacts.$inferSelect;
+export type ContactStatus = "pending" | "accepted" | "declined";
+export type Media = typeof media.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+export type ImageAttachment = Attachment & { width: number; height: number; blurhash: string };
+export type VoiceAttachment = Attachment & { durationMs: number; waveform: number[] };
+export type VideoAttachment = Attachment & { width: number; height: number; durationMs: number };
+
+export function isImageAttachment(attachment?: Attachment): attachment is ImageAttachment {
+  return !!attachment && attachment.width != null && attachment.height != null && attachment.blurhash != null;
+}
+
+export function isVoiceAttachment(attachment?: Attachment): attachment is VoiceAttachment {
+  return !!attachment && attachment.durationMs != null && attachment.waveform != null;
+}
+
+export function isVideoAttachment(attachment?: Attachment): attachment is VideoAttachment {
+  return !!attachment && attachment.width != null && attachment.height != null && attachment.durationMs != null;
+}
+
+export type Call = typeof calls.$inferSelect;
+export type CallKind = typeof callKinds[number];
+export type CallStatus = typeof callStatuses[number];
+export type PresenceState = typeof presenceStates[number];
+export type VisiblePresence = "online" | "away" | "dnd" | "offline";
+export type PresenceFields = z.infer<typeof presenceFieldsSchema>;
+// Frames as the server reads them after validation, and as the client writes them
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+export type ClientFrameInput = z.input<typeof clientFrameSchema>;
+export type ServerFrame = z.infer<typeof serverFrameSchema>;
+export type SocketErrorCode = typeof socketErrorCodes[number];
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type ChatMute = typeof chatMutes.$inferSelect;
+export type MuteChatData = z.infer<typeof muteChatSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationMember = typeof conversationMembers.$inferSelect;
+export type ConversationRole = typeof conversationRoles[number];
+export type CreateConversationData = z.infer<typeof createConversationSchema>;
 
 // Public user type (without sensitive data)
 export type PublicUser = Omit<User, 'password'>;
+
+// Message as sent to clients, with the reactions it has collected so far
+export type ChatMessage = Message & {
+  reactions?: MessageReaction[];
+  attachment?: Attachment;
+  file?: MediaInfo;
+  call?: Call;
+};
+
+export type MessageStatus = "sent" | "delivered" | "read";
+
+export function messageStatus(message: Pick<Message, "deliveredAt" | "readAt">): MessageStatus {
+  if (message.readAt) return "read";
+  if (message.deliveredAt) return "delivered";
+  return "sent";
+}
+
+// What clients need to show and download an uploaded file
+export type MediaInfo = Pick<Media, "id" | "fileName" | "contentType" | "size">;
+
+// Group conversation with its members, as sent to clients
+export type ConversationDetails = Conversation & {
+  members: Array<{
+    user: PublicUser;
+    role: ConversationRole;
+    joinedAt: Date | null;
+  }>;
+};
+
+// A contact row from one user's point of view
+export type ContactEntry = {
+  contact: Contact;
+  user: PublicUser;
+  direction: "incoming" | "outgoing";
+};
+
+// Search hit with a highlighted snippet and the chat it belongs to
+export type MessageSearchResult = {
+  message: Message;
+  snippet: string;
+  chat:
+    | { kind: "direct"; user: PublicUser }
+    | { kind: "group"; conversation: Pick<Conversation, "id" | "name" | "avatar"> };
+};
+
+// Entry in a user's chat list: either a direct chat or a group
+export type ChatListEntry =
+  | {
+      kind: "direct";
+      user: PublicUser;
+      lastMessage?: Message;
+      unreadCount: number;
+      isMuted: boolean;
+    }
+  | {
+      kind: "group";
+      conversation: ConversationDetails;
+      lastMessage?: Message;
+      unreadCount: number;
+      isMuted: boolean;
+    };
@@ -1,37 +1,250 @@
 import {
   users,
   messages,
+  conversations,
+  conversationMembers,
+  messageEdits,
+  messageReactions,
+  contacts,
+  userBlocks,
+  chatMutes,
+  media,
+  attachments,
+  calls,
+  socketConnections,
   type User,
   type InsertUser,
   type Message,
+  type MessageEdit,
+  type MessageReaction,
+  type ChatMessage,
   type InsertMessage,
   type PublicUser,
+  type Conversation,
+  type ConversationMember,
+  type ConversationRole,
+  type ConversationDetails,
+  type CreateConversationData,
+  type ChatListEntry,
+  type Contact,
+  type ContactEntry,
+  type ContactStatus,
+  type MuteChatData,
+  type Media,
+  type Attachment,
+  type InsertAttachment,
+  type Call,
+  type CallKind,
+  type PresenceState,
+  type MessageHistoryQuery,
+  type MessageSearchQuery,
+  type UserSearchQuery,
+  type MessageSearchResult,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  MESSAGE_PAGE_SIZE,
+  messageSearchDocument,
+  describeCall,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, asc, sql, ne } from "drizzle-orm";
+import { eq, and, or, desc, asc, sql, ne, gt, lt, inArray, isNull, notExists, getTableColumns, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getExistingUserIds(userIds: string[]): Promise<string[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUserOnlineStatus(id: string, isOnline: boolean): Promise<void>;
-  updateUserProfile(id: string, data: Partial<Pick<User, 'displayName' | 'avatar' | 'status'>>): Promise<User>;
-  getOnlineUsers(): Promise<PublicUser[]>;
+  updateUserProfile(id: string, data: Partial<Pick<User, 'displayName' | 'avatar' | 'status' | 'statusEmoji' | 'statusExpiresAt' | 'presence' | 'allowMessagesFrom'>>): Promise<User>;
+  getRelatedUsers(userId: string): Promise<PublicUser[]>;
+  getRelatedUserIds(userId: string): Promise<string[]>;
+  searchUsers(userId: string, query: UserSearchQuery): Promise<PublicUser[]>;
   
   // Message operations
-  createMessage(message: InsertMessage): Promise<Message>;
-  getMessagesBetweenUsers(userId1: string, userId2: string, limit?: number): Promise<Message[]>;
-  markMessagesAsRead(senderId: string, receiverId: string): Promise<void>;
+  createMessage(message: InsertMessage): Promise<{ message: Message; created: boolean }>;
+  getMessage(id: string): Promise<Message | undefined>;
+  getMessageByClientId(senderId: string, clientId: string): Promise<Message | undefined>;
+  editMessage(id: string, content: string, keepHistory: boolean): Promise<Message>;
+  deleteMessage(id: string): Promise<Message>;
+  getMessageEdits(messageId: string): Promise<MessageEdit[]>;
+  toggleMessageReaction(messageId: string, userId: string, emoji: string): Promise<MessageReaction[]>;
+  getMessageReactions(messageId: string): Promise<MessageReaction[]>;
+  attachMessageDetails(messages: Message[]): Promise<ChatMessage[]>;
+  getMessagesBetweenUsers(userId1: string, userId2: string, query?: Partial<MessageHistoryQuery>): Promise<Message[]>;
+  getMessagesChangedSince(userId: string, since: Date, limit: number): Promise<Message[]>;
+  markMessageDelivered(messageId: string, receiverId: string): Promise<Message | undefined>;
+  markMessagesAsRead(senderId: string, receiverId: string): Promise<Message[]>;
+  searchMessages(userId: string, query: MessageSearchQuery): Promise<MessageSearchResult[]>;
   getUnreadMessageCount(userId: string): Promise<number>;
   
+  // Group conversation operations
+  createConversation(ownerId: string, data: CreateConversationData): Promise<ConversationDetails>;
+  getConversation(id: string): Promise<ConversationDetails | undefined>;
+  updateConversation(id: string, data: Partial<Pick<Conversation, 'name' | 'avatar'>>): Promise<ConversationDetails>;
+  getConversationMember(conversationId: string, userId: string): Promise<ConversationMember | undefined>;
+  getConversationMemberIds(conversationId: string): Promise<string[]>;
+  addConversationMembers(conversationId: string, userIds: string[]): Promise<void>;
+  updateConversationMemberRole(conversationId: string, userId: string, role: ConversationRole): Promise<void>;
+  removeConversationMember(conversationId: string, userId: string): Promise<void>;
+  getConversationMessages(conversationId: string, query?: Partial<MessageHistoryQuery>): Promise<Message[]>;
+  markConversationAsRead(conversationId: string, userId: string): Promise<void>;
+
+  // Contact operations
+  getContacts(userId: string): Promise<ContactEntry[]>;
+  getContactBetween(userId: string, otherUserId: string): Promise<Contact | undefined>;
+  getContactById(id: string): Promise<Contact | undefined>;
+  createContactRequest(requesterId: string, addresseeId: string): Promise<Contact>;
+  updateContactStatus(id: string, status: ContactStatus): Promise<Contact>;
+  deleteContact(id: string): Promise<void>;
+  areContacts(userId: string, otherUserId: string): Promise<boolean>;
+
+  // Media operations
+  createMedia(data: Omit<Media, 'id' | 'createdAt'>): Promise<Media>;
+  getMedia(id: string): Promise<Media | undefined>;
+  createAttachment(data: InsertAttachment): Promise<Attachment>;
+  getAttachment(mediaId: string): Promise<Attachment | undefined>;
+  canAccessMedia(userId: string, media: Media): Promise<boolean>;
+
+  // Call operations
+  createCall(callerId: string, calleeId: string, kind: CallKind): Promise<Call>;
+  updateCall(id: string, data: Partial<Pick<Call, 'status' | 'answeredAt' | 'endedAt'>>): Promise<Call>;
+  createCallMessage(call: Call): Promise<Message>;
+
+  // Connection operations; counts cover every server instance
+  addConnection(id: string, userId: string, instanceId: string): Promise<number>;
+  removeConnection(id: string, userId: string): Promise<number>;
+  countConnections(userId: string): Promise<number>;
+  touchConnections(instanceId: string): Promise<void>;
+  removeStaleConnections(): Promise<string[]>;
+  setConnectionIdle(id: string, idle: boolean): Promise<void>;
+  refreshUserIdle(userId: string): Promise<boolean>;
+  clearExpiredStatuses(): Promise<string[]>;
+
+  // Block and mute operations
+  blockUser(blockerId: string, blockedId: string): Promise<void>;
+  unblockUser(blockerId: string, blockedId: string): Promise<void>;
+  getBlockedUsers(userId: string): Promise<PublicUser[]>;
+  getBlockedUserIds(userId: string): Promise<string[]>;
+  isBlockedBetween(userId: string, otherUserId: string): Promise<boolean>;
+  setChatMuted(userId: string, data: MuteChatData): Promise<void>;
+
   // Chat operations
-  getUserChatList(userId: string): Promise<Array<{
-    user: PublicUser;
-    lastMessage?: Message;
-    unreadCount: number;
-  }>>;
+  getUserChatList(userId: string): Promise<ChatListEntry[]>;
+}
+
+// A connection whose server hasn't refreshed it for this long is treated as gone
+const CONNECTION_STALE_SECONDS = 90;
+
+// Columns that are safe to send to other users
+const publicUserColumns = {
+  id: users.id,
+  username: users.username,
+  displayName: users.displayName,
+  avatar: users.avatar,
+  status: users.status,
+  statusEmoji: users.statusEmoji,
+  statusExpiresAt: users.statusExpiresAt,
+  // Invisible users read as offline, without giving away that they chose to hide
+  isOnline: sql<boolean>`(${users.isOnline} and ${users.presence} <> 'invisible')`,
+  presence: sql<PresenceState>`(case when ${users.presence} = 'invisible' then 'online' else ${users.presence} end)`,
+  isIdle: users.isIdle,
+  allowMessagesFrom: users.allowMessagesFrom,
+  lastSeen: users.lastSeen,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+// A user as other people may see them, matching publicUserColumns
+export function toPublicUser({ password, ...user }: User): PublicUser {
+  return user.presence === "invisible" ? { ...user, isOnline: false, presence: "online" } : user;
+}
+
+// A user with every presence field blanked, for chats across a block
+function withoutPresence(user: PublicUser): PublicUser {
+  return {
+    ...user,
+    isOnline: false,
+    presence: "online",
+    isIdle: false,
+    lastSeen: null,
+    status: "",
+    statusEmoji: null,
+    statusExpiresAt: null,
+  };
+}
+
+// Matches users with no block between them and the given user, in either direction
+function notBlockedWith(userId: string): SQL {
+  return notExists(
+    db
+      .select({ blockerId: userBlocks.blockerId })
+      .from(userBlocks)
+      .where(
+        or(
+          and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, users.id)),
+          and(eq(userBlocks.blockerId, users.id), eq(userBlocks.blockedId, userId))
+        )
+      )
+  );
+}
+
+// Matches users who share a contact request, a group or a direct chat with the given user,
+// which is who gets to follow their presence
+function relatedTo(userId: string): SQL {
+  return and(
+    ne(users.id, userId),
+    notBlockedWith(userId),
+    or(
+      inArray(
+        users.id,
+        db
+          .select({ id: contacts.addresseeId })
+          .from(contacts)
+          .where(and(eq(contacts.requesterId, userId), ne(contacts.status, "declined")))
+      ),
+      inArray(
+        users.id,
+        db
+          .select({ id: contacts.requesterId })
+          .from(contacts)
+          .where(and(eq(contacts.addresseeId, userId), ne(contacts.status, "declined")))
+      ),
+      inArray(
+        users.id,
+        db
+          .select({ id: conversationMembers.userId })
+          .from(conversationMembers)
+          .where(
+            inArray(
+              conversationMembers.conversationId,
+              db
+                .select({ id: conversationMembers.conversationId })
+                .from(conversationMembers)
+                .where(eq(conversationMembers.userId, userId))
+            )
+          )
+      ),
+      inArray(users.id, db.select({ id: messages.receiverId }).from(messages).where(eq(messages.senderId, userId))),
+      inArray(users.id, db.select({ id: messages.senderId }).from(messages).where(eq(messages.receiverId, userId)))
+    )
+  )!;
+}
+
+// Matches messages in chats the user takes part in
+function inChatsOf(userId: string): SQL {
+  return or(
+    eq(messages.senderId, userId),
+    eq(messages.receiverId, userId),
+    inArray(
+      messages.conversationId,
+      db
+        .select({ id: conversationMembers.conversationId })
+        .from(conversationMembers)
+        .where(eq(conversationMembers.userId, userId))
+    )
+  )!;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -45,6 +258,14 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getExistingUserIds(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const rows = await db.select({ id: users.id }).from(users).where(inArray(users.id, userIds));
+    return rows.map(row => row.id);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const hashedPassword = await bcrypt.hash(insertUser.password, 12);
     const [user] = await db
@@ -62,7 +283,8 @@ export class DatabaseStorage implements IStorage {
       .update(users)
       .set({
         isOnline,
-        lastSeen: new Date(),
+        // Frozen while invisible, so it can't show the user is still around
+        lastSeen: sql`(case when ${users.presence} = 'invisible' then ${users.lastSeen} else now() end)`,
         updatedAt: new Date(),
       })
       .where(eq(users.id, id));
@@ -70,7 +292,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateUserProfile(
     id: string,
-    data: Partial<Pick<User, 'displayName' | 'avatar' | 'status'>>
+    data: Partial<Pick<User, 'displayName' | 'avatar' | 'status' | 'statusEmoji' | 'statusExpiresAt' | 'presence' | 'allowMessagesFrom'>>
   ): Promise<User> {
     const [user] = await db
       .update(users)
@@ -83,61 +305,330 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getOnlineUsers(): Promise<PublicUser[]> {
-    const onlineUsers = await db
-      .select({
-        id: users.id,
-        username: users.username,
-        displayName: users.displayName,
-        avatar: users.avatar,
-        status: users.status,
-        isOnline: users.isOnline,
-        lastSeen: users.lastSeen,
-        createdAt: users.createdAt,
-        updatedAt: users.updatedAt,
-      })
+  async getRelatedUsers(userId: string): Promise<PublicUser[]> {
+    return await db.select(publicUserColumns).from(users).where(relatedTo(userId));
+  }
+
+  async getRelatedUserIds(userId: string): Promise<string[]> {
+    const related = await db.select({ id: users.id }).from(users).where(relatedTo(userId));
+    return related.map(user => user.id);
+  }
+
+  async searchUsers(userId: string, { q, limit, offset }: UserSearchQuery): Promise<PublicUser[]> {
+    const term = q.toLowerCase();
+    // Escape LIKE wildcards so they match literally
+    const prefix = `${term.replace(/[\\%_]/g, "\\$&")}%`;
+
+    return await db
+      .select(publicUserColumns)
       .from(users)
-      .where(eq(users.isOnline, true));
-    return onlineUsers;
+      .where(
+        and(
+          ne(users.id, userId),
+          notBlockedWith(userId),
+          or(
+            sql`lower(${users.username}) like ${prefix}`,
+            sql`lower(${users.displayName}) like ${prefix}`
+          )
+        )
+      )
+      .orderBy(
+        // Exact username matches first
+        desc(sql`lower(${users.username}) = ${term}`),
+        asc(users.displayName),
+        asc(users.id)
+      )
+      .limit(limit)
+      .offset(offset);
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
+  // A clientId the sender already used returns the stored message instead, with created false
+  async createMessage(message: InsertMessage): Promise<{ message: Message; created: boolean }> {
     const [newMessage] = await db
       .insert(messages)
       .values(message)
+      .onConflictDoNothing({ target: [messages.senderId, messages.clientId] })
       .returning();
-    return newMessage;
+    if (newMessage) {
+      return { message: newMessage, created: true };
+    }
+    const existing = await this.getMessageByClientId(message.senderId, message.clientId!);
+    return { message: existing!, created: false };
+  }
+
+  async getMessageByClientId(senderId: string, clientId: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.senderId, senderId), eq(messages.clientId, clientId)));
+    return message;
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async editMessage(id: string, content: string, keepHistory: boolean): Promise<Message> {
+    return await db.transaction(async (tx) => {
+      if (keepHistory) {
+        // Archive the current version before overwriting it
+        const [current] = await tx.select().from(messages).where(eq(messages.id, id));
+        await tx.insert(messageEdits).values({
+          messageId: id,
+          content: current.content,
+        });
+      }
+
+      const [message] = await tx
+        .update(messages)
+        .set({
+          content,
+          editedAt: new Date(),
+        })
+        .where(eq(messages.id, id))
+        .returning();
+      return message;
+    });
+  }
+
+  async deleteMessage(id: string): Promise<Message> {
+    return await db.transaction(async (tx) => {
+      // A deleted message keeps no trace of its content
+      await tx.delete(messageEdits).where(eq(messageEdits.messageId, id));
+
+      const [message] = await tx
+        .update(messages)
+        .set({
+          content: "",
+          imageUrl: null,
+          mediaId: null,
+          deletedAt: new Date(),
+        })
+        .where(eq(messages.id, id))
+        .returning();
+      return message;
+    });
+  }
+
+  async getMessageEdits(messageId: string): Promise<MessageEdit[]> {
+    return await db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.editedAt));
+  }
+
+  async toggleMessageReaction(messageId: string, userId: string, emoji: string): Promise<MessageReaction[]> {
+    const reactionKey = and(
+      eq(messageReactions.messageId, messageId),
+      eq(messageReactions.userId, userId),
+      eq(messageReactions.emoji, emoji)
+    );
+
+    const removed = await db.delete(messageReactions).where(reactionKey).returning();
+    if (removed.length === 0) {
+      await db
+        .insert(messageReactions)
+        .values({ messageId, userId, emoji })
+        .onConflictDoNothing();
+    }
+
+    return await this.getMessageReactions(messageId);
+  }
+
+  async getMessageReactions(messageId: string): Promise<MessageReaction[]> {
+    return await db
+      .select()
+      .from(messageReactions)
+      .where(eq(messageReactions.messageId, messageId))
+      .orderBy(asc(messageReactions.createdAt));
+  }
+
+  // Adds reactions and attachment details to messages before they go to clients
+  async attachMessageDetails(messageList: Message[]): Promise<ChatMessage[]> {
+    if (messageList.length === 0) return [];
+
+    const reactions = await db
+      .select()
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageList.map(message => message.id)))
+      .orderBy(asc(messageReactions.createdAt));
+
+    const mediaIds = messageList.flatMap(message => message.mediaId ? [message.mediaId] : []);
+    const attachmentList = mediaIds.length > 0
+      ? await db.select().from(attachments).where(inArray(attachments.mediaId, mediaIds))
+      : [];
+    const callIds = messageList.flatMap(message => message.callId ? [message.callId] : []);
+    const callList = callIds.length > 0
+      ? await db.select().from(calls).where(inArray(calls.id, callIds))
+      : [];
+    const fileList = mediaIds.length > 0
+      ? await db
+          .select({ id: media.id, fileName: media.fileName, contentType: media.contentType, size: media.size })
+          .from(media)
+          .where(inArray(media.id, mediaIds))
+      : [];
+
+    return messageList.map(message => ({
+      ...message,
+      reactions: reactions.filter(reaction => reaction.messageId === message.id),
+      attachment: attachmentList.find(attachment => attachment.mediaId === message.mediaId),
+      file: fileList.find(file => file.id === message.mediaId),
+      call: callList.find(call => call.id === message.callId),
+    }));
   }
 
   async getMessagesBetweenUsers(
     userId1: string,
     userId2: string,
-    limit: number = 50
+    query: Partial<MessageHistoryQuery> = {}
   ): Promise<Message[]> {
+    return await this.getMessagePage(
+      or(
+        and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
+        and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1))
+      )!,
+      query
+    );
+  }
+
+  // Returns one page of messages in ascending order. Without a cursor this is
+  // the newest page; `before`/`after` page relative to the given message id.
+  private async getMessagePage(
+    scope: SQL,
+    { before, after, limit = MESSAGE_PAGE_SIZE }: Partial<MessageHistoryQuery>
+  ): Promise<Message[]> {
+    const cursor = before ?? after;
+    const cursorCondition = cursor
+      ? sql`(${messages.createdAt}, ${messages.id}) ${after ? sql`>` : sql`<`} (
+          select ${messages.createdAt}, ${messages.id} from ${messages} where ${messages.id} = ${cursor}
+        )`
+      : undefined;
+
+    if (after) {
+      return await db
+        .select()
+        .from(messages)
+        .where(and(scope, cursorCondition))
+        .orderBy(asc(messages.createdAt), asc(messages.id))
+        .limit(limit);
+    }
+
+    const page = await db
+      .select()
+      .from(messages)
+      .where(and(scope, cursorCondition))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit);
+    return page.reverse();
+  }
+
+  async searchMessages(
+    userId: string,
+    { q, limit, offset }: MessageSearchQuery
+  ): Promise<MessageSearchResult[]> {
+    const document = messageSearchDocument(messages.content);
+    const tsQuery = sql`websearch_to_tsquery('english', ${q})`;
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxFragments=1, MaxWords=20, MinWords=5`;
+
+    const hits = await db
+      .select({
+        message: getTableColumns(messages),
+        snippet: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(messages)
+      .where(
+        and(
+          sql`${document} @@ ${tsQuery}`,
+          isNull(messages.deletedAt),
+          inChatsOf(userId)
+        )
+      )
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(messages.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    // Look up the other person or the group for each hit
+    const partnerIds = Array.from(new Set(hits.flatMap(({ message }) =>
+      message.conversationId ? [] : [message.senderId === userId ? message.receiverId! : message.senderId]
+    )));
+    const conversationIds = Array.from(new Set(hits.flatMap(({ message }) =>
+      message.conversationId ? [message.conversationId] : []
+    )));
+
+    const partners = partnerIds.length > 0
+      ? await db.select(publicUserColumns).from(users).where(inArray(users.id, partnerIds))
+      : [];
+    const groups = conversationIds.length > 0
+      ? await db
+          .select({ id: conversations.id, name: conversations.name, avatar: conversations.avatar })
+          .from(conversations)
+          .where(inArray(conversations.id, conversationIds))
+      : [];
+
+    return hits.flatMap(({ message, snippet }): MessageSearchResult[] => {
+      if (message.conversationId) {
+        const conversation = groups.find(group => group.id === message.conversationId);
+        return conversation ? [{ message, snippet, chat: { kind: "group", conversation } }] : [];
+      }
+      const partnerId = message.senderId === userId ? message.receiverId : message.senderId;
+      const user = partners.find(partner => partner.id === partnerId);
+      return user ? [{ message, snippet, chat: { kind: "direct", user } }] : [];
+    });
+  }
+
+  // Messages in the user's chats that were sent, edited, deleted, delivered or read after `since`, oldest first
+  async getMessagesChangedSince(userId: string, since: Date, limit: number): Promise<Message[]> {
     return await db
       .select()
       .from(messages)
       .where(
-        or(
-          and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
-          and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1))
+        and(
+          inChatsOf(userId),
+          or(
+            gt(messages.createdAt, since),
+            gt(messages.editedAt, since),
+            gt(messages.deletedAt, since),
+            gt(messages.deliveredAt, since),
+            gt(messages.readAt, since)
+          )
         )
       )
-      .orderBy(asc(messages.createdAt))
+      .orderBy(asc(messages.createdAt), asc(messages.id))
       .limit(limit);
   }
 
-  async markMessagesAsRead(senderId: string, receiverId: string): Promise<void> {
-    await db
+  // Only the receiver can acknowledge, and only the first acknowledgement counts
+  async markMessageDelivered(messageId: string, receiverId: string): Promise<Message | undefined> {
+    const [delivered] = await db
       .update(messages)
-      .set({ isRead: true })
+      .set({ deliveredAt: new Date() })
+      .where(
+        and(
+          eq(messages.id, messageId),
+          eq(messages.receiverId, receiverId),
+          isNull(messages.deliveredAt)
+        )
+      )
+      .returning();
+    return delivered;
+  }
+
+  // Returns the messages that were newly read; a read message counts as delivered too
+  async markMessagesAsRead(senderId: string, receiverId: string): Promise<Message[]> {
+    const now = new Date();
+    return await db
+      .update(messages)
+      .set({ readAt: now, deliveredAt: sql`coalesce(${messages.deliveredAt}, ${now})` })
       .where(
         and(
           eq(messages.senderId, senderId),
           eq(messages.receiverId, receiverId),
-          eq(messages.isRead, false)
+          isNull(messages.readAt)
         )
-      );
+      )
+      .returning();
   }
 
   async getUnreadMessageCount(userId: string): Promise<number> {
@@ -147,30 +638,465 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(messages.receiverId, userId),
-          eq(messages.isRead, false)
+          isNull(messages.readAt)
         )
       );
     return result.length;
   }
 
-  async getUserChatList(userId: string): Promise<Array<{
-    user: PublicUser;
-    lastMessage?: Message;
-    unreadCount: number;
-  }>> {
+  async createConversation(ownerId: string, data: CreateConversationData): Promise<ConversationDetails> {
+    const conversation = await db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({
+          name: data.name,
+          avatar: data.avatar,
+          createdBy: ownerId,
+        })
+        .returning();
+
+      const memberIds = Array.from(new Set(data.memberIds)).filter(id => id !== ownerId);
+      await tx.insert(conversationMembers).values([
+        { conversationId: conversation.id, userId: ownerId, role: "owner" },
+        ...memberIds.map(userId => ({ conversationId: conversation.id, userId, role: "member" })),
+      ]);
+
+      return conversation;
+    });
+
+    return (await this.getConversation(conversation.id))!;
+  }
+
+  async getConversation(id: string): Promise<ConversationDetails | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    if (!conversation) return undefined;
+
+    const members = await db
+      .select({
+        user: publicUserColumns,
+        role: conversationMembers.role,
+        joinedAt: conversationMembers.joinedAt,
+      })
+      .from(conversationMembers)
+      .innerJoin(users, eq(conversationMembers.userId, users.id))
+      .where(eq(conversationMembers.conversationId, id))
+      .orderBy(asc(conversationMembers.joinedAt));
+
+    return {
+      ...conversation,
+      members: members.map(member => ({
+        ...member,
+        role: member.role as ConversationRole,
+      })),
+    };
+  }
+
+  async updateConversation(
+    id: string,
+    data: Partial<Pick<Conversation, 'name' | 'avatar'>>
+  ): Promise<ConversationDetails> {
+    await db
+      .update(conversations)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+      })
+      .where(eq(conversations.id, id));
+    return (await this.getConversation(id))!;
+  }
+
+  async getConversationMember(conversationId: string, userId: string): Promise<ConversationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(conversationMembers)
+      .where(
+        and(
+          eq(conversationMembers.conversationId, conversationId),
+          eq(conversationMembers.userId, userId)
+        )
+      );
+    return member;
+  }
+
+  async getConversationMemberIds(conversationId: string): Promise<string[]> {
+    const members = await db
+      .select({ userId: conversationMembers.userId })
+      .from(conversationMembers)
+      .where(eq(conversationMembers.conversationId, conversationId));
+    return members.map(member => member.userId);
+  }
+
+  async addConversationMembers(conversationId: string, userIds: string[]): Promise<void> {
+    await db
+      .insert(conversationMembers)
+      .values(userIds.map(userId => ({ conversationId, userId, role: "member" })))
+      .onConflictDoNothing();
+  }
+
+  async updateConversationMemberRole(conversationId: string, userId: string, role: ConversationRole): Promise<void> {
+    await db
+      .update(conversationMembers)
+      .set({ role })
+      .where(
+        and(
+          eq(conversationMembers.conversationId, conversationId),
+          eq(conversationMembers.userId, userId)
+        )
+      );
+  }
+
+  async removeConversationMember(conversationId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(conversationMembers)
+        .where(
+          and(
+            eq(conversationMembers.conversationId, conversationId),
+            eq(conversationMembers.userId, userId)
+          )
+        )
+        .returning();
+
+      // Hand ownership to the longest-standing admin, or member, when the owner leaves
+      if (removed?.role === "owner") {
+        const [successor] = await tx
+          .select()
+          .from(conversationMembers)
+          .where(eq(conversationMembers.conversationId, conversationId))
+          .orderBy(
+            sql`case when ${conversationMembers.role} = 'admin' then 0 else 1 end`,
+            asc(conversationMembers.joinedAt)
+          )
+          .limit(1);
+
+        if (successor) {
+          await tx
+            .update(conversationMembers)
+            .set({ role: "owner" })
+            .where(
+              and(
+                eq(conversationMembers.conversationId, conversationId),
+                eq(conversationMembers.userId, successor.userId)
+              )
+            );
+        }
+      }
+    });
+  }
+
+  async getConversationMessages(
+    conversationId: string,
+    query: Partial<MessageHistoryQuery> = {}
+  ): Promise<Message[]> {
+    return await this.getMessagePage(eq(messages.conversationId, conversationId), query);
+  }
+
+  async markConversationAsRead(conversationId: string, userId: string): Promise<void> {
+    await db
+      .update(conversationMembers)
+      .set({ lastReadAt: new Date() })
+      .where(
+        and(
+          eq(conversationMembers.conversationId, conversationId),
+          eq(conversationMembers.userId, userId)
+        )
+      );
+  }
+
+  async getContacts(userId: string): Promise<ContactEntry[]> {
+    const rows = await db
+      .select({ contact: contacts, user: publicUserColumns })
+      .from(contacts)
+      .innerJoin(
+        users,
+        or(
+          and(eq(contacts.requesterId, userId), eq(users.id, contacts.addresseeId)),
+          and(eq(contacts.addresseeId, userId), eq(users.id, contacts.requesterId))
+        )
+      )
+      // Declined requests stay hidden from both sides
+      .where(ne(contacts.status, "declined"))
+      .orderBy(asc(users.displayName));
+
+    return rows.map(({ contact, user }) => ({
+      contact,
+      user,
+      direction: contact.requesterId === userId ? "outgoing" as const : "incoming" as const,
+    }));
+  }
+
+  async getContactBetween(userId: string, otherUserId: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(
+        or(
+          and(eq(contacts.requesterId, userId), eq(contacts.addresseeId, otherUserId)),
+          and(eq(contacts.requesterId, otherUserId), eq(contacts.addresseeId, userId))
+        )
+      );
+    return contact;
+  }
+
+  async getContactById(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact;
+  }
+
+  async createContactRequest(requesterId: string, addresseeId: string): Promise<Contact> {
+    const [contact] = await db
+      .insert(contacts)
+      .values({ requesterId, addresseeId })
+      .returning();
+    return contact;
+  }
+
+  async updateContactStatus(id: string, status: ContactStatus): Promise<Contact> {
+    const [contact] = await db
+      .update(contacts)
+      .set({
+        status,
+        respondedAt: status === "pending" ? null : new Date(),
+      })
+      .where(eq(contacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  async areContacts(userId: string, otherUserId: string): Promise<boolean> {
+    const contact = await this.getContactBetween(userId, otherUserId);
+    return contact?.status === "accepted";
+  }
+
+  async createMedia(data: Omit<Media, 'id' | 'createdAt'>): Promise<Media> {
+    const [created] = await db.insert(media).values(data).returning();
+    return created;
+  }
+
+  async getMedia(id: string): Promise<Media | undefined> {
+    const [found] = await db.select().from(media).where(eq(media.id, id));
+    return found;
+  }
+
+  async createAttachment(data: InsertAttachment): Promise<Attachment> {
+    const [created] = await db.insert(attachments).values(data).returning();
+    return created;
+  }
+
+  async getAttachment(mediaId: string): Promise<Attachment | undefined> {
+    const [found] = await db.select().from(attachments).where(eq(attachments.mediaId, mediaId));
+    return found;
+  }
+
+  // The uploader can always see a file; anyone else needs to be in a chat where it was sent
+  async canAccessMedia(userId: string, file: Media): Promise<boolean> {
+    if (file.uploaderId === userId) {
+      return true;
+    }
+
+    const [shared] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .leftJoin(
+        conversationMembers,
+        and(
+          eq(conversationMembers.conversationId, messages.conversationId),
+          eq(conversationMembers.userId, userId)
+        )
+      )
+      .where(
+        and(
+          eq(messages.mediaId, file.id),
+          isNull(messages.deletedAt),
+          or(
+            eq(messages.senderId, userId),
+            eq(messages.receiverId, userId),
+            eq(conversationMembers.userId, userId)
+          )
+        )
+      )
+      .limit(1);
+    return !!shared;
+  }
+
+  // Returns how many live connections the user has, this one included
+  async addConnection(id: string, userId: string, instanceId: string): Promise<number> {
+    await db.insert(socketConnections).values({ id, userId, instanceId });
+    return this.countConnections(userId);
+  }
+
+  // Returns how many live connections the user has left
+  async removeConnection(id: string, userId: string): Promise<number> {
+    await db.delete(socketConnections).where(eq(socketConnections.id, id));
+    return this.countConnections(userId);
+  }
+
+  async countConnections(userId: string): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(socketConnections)
+      .where(
+        and(
+          eq(socketConnections.userId, userId),
+          gt(socketConnections.seenAt, sql`now() - make_interval(secs => ${CONNECTION_STALE_SECONDS})`)
+        )
+      );
+    return count;
+  }
+
+  async touchConnections(instanceId: string): Promise<void> {
+    await db
+      .update(socketConnections)
+      .set({ seenAt: new Date() })
+      .where(eq(socketConnections.instanceId, instanceId));
+  }
+
+  // Drops connections whose instance stopped refreshing them and
+  // returns the users that no longer have any connection at all
+  async removeStaleConnections(): Promise<string[]> {
+    const removed = await db
+      .delete(socketConnections)
+      .where(lt(socketConnections.seenAt, sql`now() - make_interval(secs => ${CONNECTION_STALE_SECONDS})`))
+      .returning({ userId: socketConnections.userId });
+
+    const userIds = Array.from(new Set(removed.map(connection => connection.userId)));
+    const counts = await Promise.all(userIds.map(userId => this.countConnections(userId)));
+    return userIds.filter((_, index) => counts[index] === 0);
+  }
+
+  async setConnectionIdle(id: string, idle: boolean): Promise<void> {
+    await db.update(socketConnections).set({ idle }).where(eq(socketConnections.id, id));
+  }
+
+  // A user is idle once every connection they have is; returns whether that changed
+  async refreshUserIdle(userId: string): Promise<boolean> {
+    const isIdle = sql<boolean>`not exists (${db
+      .select({ id: socketConnections.id })
+      .from(socketConnections)
+      .where(and(eq(socketConnections.userId, userId), eq(socketConnections.idle, false)))})`;
+    const updated = await db
+      .update(users)
+      .set({ isIdle })
+      .where(and(eq(users.id, userId), sql`${users.isIdle} is distinct from ${isIdle}`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Returns the users whose custom status was cleared
+  async clearExpiredStatuses(): Promise<string[]> {
+    const cleared = await db
+      .update(users)
+      .set({ status: "", statusEmoji: null, statusExpiresAt: null, updatedAt: new Date() })
+      .where(lt(users.statusExpiresAt, new Date()))
+      .returning({ id: users.id });
+    return cleared.map(user => user.id);
+  }
+
+  async createCall(callerId: string, calleeId: string, kind: CallKind): Promise<Call> {
+    const [call] = await db.insert(calls).values({ callerId, calleeId, kind }).returning();
+    return call;
+  }
+
+  async updateCall(id: string, data: Partial<Pick<Call, 'status' | 'answeredAt' | 'endedAt'>>): Promise<Call> {
+    const [call] = await db.update(calls).set(data).where(eq(calls.id, id)).returning();
+    return call;
+  }
+
+  // Logs a finished call in the direct chat between the two users
+  async createCallMessage(call: Call): Promise<Message> {
+    const [message] = await db
+      .insert(messages)
+      .values({
+        senderId: call.callerId,
+        receiverId: call.calleeId,
+        content: describeCall(call),
+        messageType: "call",
+        callId: call.id,
+      })
+      .returning();
+    return message;
+  }
+
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(userBlocks)
+        .values({ blockerId, blockedId })
+        .onConflictDoNothing();
+
+      // Blocking ends any friendship or pending request between the two
+      await tx
+        .delete(contacts)
+        .where(
+          or(
+            and(eq(contacts.requesterId, blockerId), eq(contacts.addresseeId, blockedId)),
+            and(eq(contacts.requesterId, blockedId), eq(contacts.addresseeId, blockerId))
+          )
+        );
+    });
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await db
+      .delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+  }
+
+  async getBlockedUsers(userId: string): Promise<PublicUser[]> {
+    return await db
+      .select(publicUserColumns)
+      .from(userBlocks)
+      .innerJoin(users, eq(users.id, userBlocks.blockedId))
+      .where(eq(userBlocks.blockerId, userId))
+      .orderBy(asc(users.displayName));
+  }
+
+  // Users the given user blocked, plus users who blocked them
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select()
+      .from(userBlocks)
+      .where(or(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, userId)));
+    return rows.map(row => row.blockerId === userId ? row.blockedId : row.blockerId);
+  }
+
+  async isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+    const [block] = await db
+      .select()
+      .from(userBlocks)
+      .where(
+        or(
+          and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, otherUserId)),
+          and(eq(userBlocks.blockerId, otherUserId), eq(userBlocks.blockedId, userId))
+        )
+      )
+      .limit(1);
+    return !!block;
+  }
+
+  async setChatMuted(userId: string, { receiverId, conversationId, muted }: MuteChatData): Promise<void> {
+    const target = conversationId
+      ? eq(chatMutes.conversationId, conversationId)
+      : eq(chatMutes.mutedUserId, receiverId!);
+
+    if (muted) {
+      await db
+        .insert(chatMutes)
+        .values({ userId, mutedUserId: receiverId, conversationId })
+        .onConflictDoNothing();
+    } else {
+      await db.delete(chatMutes).where(and(eq(chatMutes.userId, userId), target));
+    }
+  }
+
+  async getUserChatList(userId: string): Promise<ChatListEntry[]> {
     // Get all users who have exchanged messages with the current user
     const chatUsers = await db
-      .selectDistinct({
-        id: users.id,
-        username: users.username,
-        displayName: users.displayName,
-        avatar: users.avatar,
-        status: users.status,
-        isOnline: users.isOnline,
-        lastSeen: users.lastSeen,
-        createdAt: users.createdAt,
-        updatedAt: users.updatedAt,
-      })
+      .selectDistinct(publicUserColumns)
       .from(users)
       .innerJoin(
         messages,
@@ -190,6 +1116,9 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    const mutes = await db.select().from(chatMutes).where(eq(chatMutes.userId, userId));
+    const blockedIds = new Set(await this.getBlockedUserIds(userId));
+
     // For each chat user, get the last message and unread count
     const chatList = await Promise.all(
       chatUsers.map(async (user) => {
@@ -214,22 +1143,64 @@ export class DatabaseStorage implements IStorage {
             and(
               eq(messages.senderId, user.id),
               eq(messages.receiverId, userId),
-              eq(messages.isRead, false)
+              isNull(messages.readAt)
             )
           );
 
         return {
-          user,
+          kind: "direct" as const,
+          // Presence is hidden in both directions once either side blocks
+          user: blockedIds.has(user.id) ? withoutPresence(user) : user,
           lastMessage,
           unreadCount: unreadMessages.length,
+          isMuted: mutes.some(mute => mute.mutedUserId === user.id),
+        };
+      })
+    );
+
+    // Add the groups the user belongs to
+    const memberships = await db
+      .select()
+      .from(conversationMembers)
+      .where(eq(conversationMembers.userId, userId));
+
+    const groupList = await Promise.all(
+      memberships.map(async (membership) => {
+        const conversation = (await this.getConversation(membership.conversationId))!;
+
+        const [lastMessage] = await db
+          .select()
+          .from(messages)
+          .where(eq(messages.conversationId, membership.conversationId))
+          .orderBy(desc(messages.createdAt))
+          .limit(1);
+
+        // Unread messages are those from others since the user last opened the group
+        const [{ count }] = await db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(messages)
+          .where(
+            and(
+              eq(messages.conversationId, membership.conversationId),
+              ne(messages.senderId, userId),
+              gt(messages.createdAt, membership.lastReadAt ?? membership.joinedAt ?? new Date(0))
+            )
+          );
+
+        return {
+          kind: "group" as const,
+          conversation,
+          lastMessage,
+          unreadCount: count,
+          isMuted: mutes.some(mute => mute.conversationId === membership.conversationId),
         };
       })
     );
 
-    // Sort by last message timestamp
-    return chatList.sort((a, b) => {
-      const aTime = a.lastMessage?.createdAt?.getTime() || 0;
-      const bTime = b.lastMessage?.createdAt?.getTime() || 0;
+    // Sort by last message timestamp, falling back to when a group was created
+    return [...chatList, ...groupList].sort((a, b) => {
+      const aTime = (a.lastMessage?.createdAt ?? (a.kind === "group" ? a.conversation.createdAt : null))?.getTime() || 0;
+      const bTime = (b.lastMessage?.createdAt ?? (b.kind === "group" ? b.conversation.createdAt : null))?.getTime() || 0;
       return bTime - aTime;
     });
   }
@@ -0,0 +1,162 @@
+import busboy from "busboy";
+import { createHash, randomUUID } from "crypto";
+import { createWriteStream } from "fs";
+import { open, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { Request } from "express";
+import {
+  DEFAULT_UPLOAD_LIMITS,
+  DEFAULT_BLOCKED_EXTENSIONS,
+  uploadLimitFor,
+  fileExtension,
+} from "@shared/schema";
+
+export interface ReceivedFile {
+  tempPath: string;
+  hash: string;
+  size: number;
+  contentType: string;
+  fileName: string;
+  // Plain form fields sent with the file
+  fields: Record<string, string>;
+}
+
+export interface UploadPolicy {
+  limits: Record<string, number>;
+  blockedExtensions: string[];
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// UPLOAD_LIMITS takes "type=megabytes" pairs, e.g. "image/=10,application/pdf=50,*=25",
+// on top of the defaults; UPLOAD_BLOCKED_EXTENSIONS replaces the blocked list, e.g. "exe,bat".
+export function loadUploadPolicy(env = process.env): UploadPolicy {
+  const limits = { ...DEFAULT_UPLOAD_LIMITS };
+  for (const entry of (env.UPLOAD_LIMITS ?? "").split(",")) {
+    const [type, megabytes] = entry.split("=").map(part => part.trim());
+    if (type && Number(megabytes) > 0) {
+      limits[type] = Number(megabytes) * 1024 * 1024;
+    }
+  }
+
+  const blockedExtensions = env.UPLOAD_BLOCKED_EXTENSIONS !== undefined
+    ? env.UPLOAD_BLOCKED_EXTENSIONS.split(",").map(extension => extension.trim().replace(/^\./, "").toLowerCase()).filter(Boolean)
+    : DEFAULT_BLOCKED_EXTENSIONS;
+
+  return { limits, blockedExtensions };
+}
+
+export const uploadPolicy = loadUploadPolicy();
+
+// The first bytes of a received file, enough to recognise its format by signature
+export async function readHeader(filePath: string, length = 12) {
+  const file = await open(filePath, "r");
+  try {
+    const header = Buffer.alloc(length);
+    await file.read(header, 0, header.length, 0);
+    return header;
+  } finally {
+    await file.close();
+  }
+}
+
+function formatLimit(bytes: number) {
+  return `${Math.floor(bytes / (1024 * 1024))}MB`;
+}
+
+// receiveUpload can only hold a file to the limit for the type the browser declared; once the
+// server has worked out what the file really is, its size is checked against that type's limit.
+export function checkUploadSize(upload: ReceivedFile, contentType: string, policy: UploadPolicy = uploadPolicy) {
+  const limit = uploadLimitFor(contentType, policy.limits);
+  if (upload.size > limit) {
+    throw new UploadError(`File is larger than ${formatLimit(limit)}`, 413);
+  }
+}
+
+// Streams the single "file" field of a multipart request to a temporary file,
+// hashing it on the way so the caller can deduplicate by content.
+export function receiveUpload(req: Request, policy: UploadPolicy = uploadPolicy): Promise<ReceivedFile> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      const maxBytes = Math.max(...Object.values(policy.limits));
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fileSize: maxBytes, fields: 10, fieldSize: 16 * 1024 },
+      });
+    } catch {
+      return reject(new UploadError("Expected a multipart upload"));
+    }
+
+    let upload: Promise<Omit<ReceivedFile, "fields">> | undefined;
+    let rejection: UploadError | undefined;
+    const fields: Record<string, string> = {};
+
+    parser.on("field", (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on("file", (field, file, { filename, mimeType }) => {
+      if (field !== "file" || upload || rejection) {
+        file.resume();
+        return;
+      }
+      if (policy.blockedExtensions.includes(fileExtension(filename ?? ""))) {
+        file.resume();
+        rejection = new UploadError("Files of this type are not allowed", 415);
+        return;
+      }
+
+      const limit = uploadLimitFor(mimeType, policy.limits);
+      const tempPath = path.join(os.tmpdir(), `upload-${randomUUID()}`);
+      const hash = createHash("sha256");
+      let size = 0;
+      const hasher = new Transform({
+        transform(chunk, _encoding, callback) {
+          size += chunk.length;
+          // Keep draining the request past the limit so the error can be sent back
+          if (size > limit) {
+            return callback();
+          }
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+      });
+
+      upload = (async () => {
+        try {
+          await pipeline(file, hasher, createWriteStream(tempPath));
+          if (file.truncated || size > limit) {
+            throw new UploadError(`File is larger than ${formatLimit(limit)}`, 413);
+          }
+          return { tempPath, hash: hash.digest("hex"), size, contentType: mimeType, fileName: filename };
+        } catch (error) {
+          await rm(tempPath, { force: true });
+          throw error;
+        }
+      })();
+      // Errors are reported once parsing finishes; avoid an unhandled rejection until then
+      upload.catch(() => {});
+    });
+
+    parser.on("close", () => {
+      if (rejection) {
+        return reject(rejection);
+      }
+      if (!upload) {
+        return reject(new UploadError("No file provided"));
+      }
+      upload.then(file => resolve({ ...file, fields }), reject);
+    });
+    parser.on("error", () => reject(new UploadError("Malformed upload")));
+
+    req.pipe(parser);
+  });
+}
@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import type { CallEvent, CallRequest } from "@/hooks/useWebSocket";
+import type { CallKind, PublicUser } from "@shared/schema";
+
+// outgoing/incoming while ringing, connecting once answered, active once media flows
+export type CallPhase = "outgoing" | "incoming" | "connecting" | "active";
+
+export interface CallState {
+  // Unknown until the server has accepted our invite
+  id?: string;
+  kind: CallKind;
+  peer: PublicUser;
+  phase: CallPhase;
+  answeredAt?: number;
+}
+
+interface UseCallOptions {
+  sendCallEvent: (event: CallRequest) => void;
+  onCallEvent: (listener: (event: CallEvent) => void) => () => void;
+}
+
+// One-to-one WebRTC calls, signaled over the chat socket. The caller sends the offer
+// once the callee accepts; ICE candidates that arrive early wait for the remote description.
+export function useCall({ sendCallEvent, onCallEvent }: UseCallOptions) {
+  const { toast } = useToast();
+  const [call, setCall] = useState<CallState | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const callRef = useRef<CallState | null>(null);
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+
+  const { data: config } = useQuery<{ iceServers: RTCIceServer[] }>({
+    queryKey: ["/api/calls/config"],
+    staleTime: Infinity,
+  });
+
+  const updateCall = (next: CallState | null) => {
+    callRef.current = next;
+    setCall(next);
+  };
+
+  const cleanup = useCallback(() => {
+    peerRef.current?.close();
+    peerRef.current = null;
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    pendingCandidatesRef.current = [];
+    callRef.current = null;
+    setCall(null);
+    setLocalStream(null);
+    setRemoteStream(null);
+    setIsMuted(false);
+    setIsCameraOff(false);
+  }, []);
+
+  const openLocalMedia = async (kind: CallKind) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: kind === "video" });
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    return stream;
+  };
+
+  const createPeer = (callId: string) => {
+    const peer = new RTCPeerConnection({ iceServers: config?.iceServers });
+    const stream = localStreamRef.current;
+    stream?.getTracks().forEach(track => peer.addTrack(track, stream));
+
+    peer.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendCallEvent({ type: 'call_ice_candidate', callId, candidate: event.candidate.toJSON() });
+      }
+    };
+    peer.ontrack = (event) => {
+      setRemoteStream(event.streams[0] ?? new MediaStream([event.track]));
+    };
+    peer.onconnectionstatechange = () => {
+      const current = callRef.current;
+      if (peer.connectionState === "connected" && current?.id === callId) {
+        updateCall({ ...current, phase: "active" });
+      } else if (peer.connectionState === "failed") {
+        toast({ title: "Call dropped", description: "The connection was lost", variant: "destructive" });
+        sendCallEvent({ type: 'call_hangup', callId });
+        cleanup();
+      }
+    };
+
+    peerRef.current = peer;
+    return peer;
+  };
+
+  const applyRemoteDescription = async (description: RTCSessionDescriptionInit) => {
+    const peer = peerRef.current;
+    if (!peer) return;
+    await peer.setRemoteDescription(description);
+    for (const candidate of pendingCandidatesRef.current) {
+      await peer.addIceCandidate(candidate);
+    }
+    pendingCandidatesRef.current = [];
+  };
+
+  const mediaUnavailable = (kind: CallKind) => {
+    toast({
+      title: kind === "video" ? "Camera unavailable" : "Microphone unavailable",
+      description: `Allow ${kind === "video" ? "camera and microphone" : "microphone"} access to make calls`,
+      variant: "destructive",
+    });
+  };
+
+  const startCall = async (peer: PublicUser, kind: CallKind) => {
+    if (callRef.current) return;
+    const invite: CallState = { kind, peer, phase: "outgoing" };
+    updateCall(invite);
+    try {
+      await openLocalMedia(kind);
+    } catch {
+      cleanup();
+      mediaUnavailable(kind);
+      return;
+    }
+    // Hung up while the browser was asking for permission
+    if ((callRef.current as CallState | null) !== invite) {
+      cleanup();
+      return;
+    }
+    sendCallEvent({ type: 'call_invite', receiverId: peer.id, kind });
+  };
+
+  const acceptCall = async () => {
+    const current = callRef.current;
+    if (!current?.id || current.phase !== "incoming") return;
+    try {
+      await openLocalMedia(current.kind);
+    } catch {
+      mediaUnavailable(current.kind);
+      declineCall();
+      return;
+    }
+    createPeer(current.id);
+    updateCall({ ...current, phase: "connecting", answeredAt: Date.now() });
+    sendCallEvent({ type: 'call_accept', callId: current.id });
+  };
+
+  const declineCall = () => {
+    const current = callRef.current;
+    if (current?.id) {
+      sendCallEvent({ type: 'call_decline', callId: current.id });
+    }
+    cleanup();
+  };
+
+  const hangUp = () => {
+    const current = callRef.current;
+    if (current?.id) {
+      sendCallEvent({ type: 'call_hangup', callId: current.id });
+    }
+    cleanup();
+  };
+
+  const toggleMute = () => {
+    const enabled = isMuted;
+    localStreamRef.current?.getAudioTracks().forEach(track => { track.enabled = enabled; });
+    setIsMuted(!enabled);
+  };
+
+  const toggleCamera = () => {
+    const enabled = isCameraOff;
+    localStreamRef.current?.getVideoTracks().forEach(track => { track.enabled = enabled; });
+    setIsCameraOff(!enabled);
+  };
+
+  const handleCallEvent = async (event: CallEvent) => {
+    const current = callRef.current;
+    const callId = event.type === 'call_ringing' || event.type === 'call_incoming' ? event.call.id : event.callId;
+    const isCurrent = !!current?.id && current.id === callId;
+
+    switch (event.type) {
+      case 'call_ringing':
+        if (current && !current.id && event.call.calleeId === current.peer.id) {
+          updateCall({ ...current, id: event.call.id });
+        } else {
+          // We hung up before the server got back to us
+          sendCallEvent({ type: 'call_hangup', callId: event.call.id });
+        }
+        break;
+      case 'call_incoming':
+        if (!current) {
+          updateCall({ id: event.call.id, kind: event.call.kind, peer: event.caller, phase: "incoming" });
+        } else if (event.call.id !== current.id) {
+          // A server that can't see our call rang us anyway, so answer busy
+          sendCallEvent({ type: 'call_hangup', callId: event.call.id });
+        }
+        break;
+      case 'call_accepted':
+        if (isCurrent && current.phase === "outgoing") {
+          updateCall({ ...current, phase: "connecting", answeredAt: Date.now() });
+          const peer = createPeer(current.id!);
+          const offer = await peer.createOffer();
+          await peer.setLocalDescription(offer);
+          sendCallEvent({ type: 'call_offer', callId: current.id!, sdp: offer.sdp! });
+        }
+        break;
+      case 'call_offer':
+        if (isCurrent && peerRef.current) {
+          await applyRemoteDescription({ type: "offer", sdp: event.sdp });
+          const answer = await peerRef.current.createAnswer();
+          await peerRef.current.setLocalDescription(answer);
+          sendCallEvent({ type: 'call_answer', callId: current.id!, sdp: answer.sdp! });
+        }
+        break;
+      case 'call_answer':
+        if (isCurrent) {
+          await applyRemoteDescription({ type: "answer", sdp: event.sdp });
+        }
+        break;
+      case 'call_ice_candidate':
+        if (isCurrent) {
+          if (peerRef.current?.remoteDescription) {
+            await peerRef.current.addIceCandidate(event.candidate);
+          } else {
+            pendingCandidatesRef.current.push(event.candidate);
+          }
+        }
+        break;
+      case 'call_ended':
+        if (isCurrent) {
+          if (current.phase === "outgoing") {
+            toast({
+              title: event.status === "declined" ? "Call declined" : "No answer",
+              description: `${current.peer.displayName} didn't pick up`,
+            });
+          }
+          cleanup();
+        }
+        break;
+      case 'call_failed':
+        if (current?.phase === "outgoing" && (!current.id || isCurrent)) {
+          toast({ title: "Call failed", description: event.error, variant: "destructive" });
+          cleanup();
+        }
+        break;
+    }
+  };
+
+  // Handlers read the latest state through refs, so one subscription is enough
+  const handleCallEventRef = useRef(handleCallEvent);
+  handleCallEventRef.current = handleCallEvent;
+  useEffect(() => {
+    return onCallEvent((event) => {
+      handleCallEventRef.current(event).catch((error) => console.error("Call signaling error:", error));
+    });
+  }, [onCallEvent]);
+
+  // Leaving the page ends the call
+  useEffect(() => cleanup, [cleanup]);
+
+  return {
+    call,
+    localStream,
+    remoteStream,
+    isMuted,
+    isCameraOff,
+    startCall,
+    acceptCall,
+    declineCall,
+    hangUp,
+    toggleMute,
+    toggleCamera,
+  };
+}
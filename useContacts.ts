@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Contact, ContactEntry } from "@shared/schema";
+
+export function useContacts(enabled = true) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: contacts = [], isLoading } = useQuery<ContactEntry[]>({
+    queryKey: ["/api/contacts"],
+    enabled,
+  });
+
+  const invalidateContacts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const sendRequestMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", "/api/contacts/requests", { userId });
+      return response.json() as Promise<Contact>;
+    },
+    onSuccess: (contact) => {
+      invalidateContacts();
+      toast({
+        title: contact.status === "accepted" ? "Contact added" : "Friend request sent",
+      });
+    },
+    onError: showError("Could not send request"),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ contactId, accept }: { contactId: string; accept: boolean }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/contacts/requests/${contactId}/${accept ? "accept" : "decline"}`
+      );
+      return response.json() as Promise<Contact>;
+    },
+    onSuccess: invalidateContacts,
+    onError: showError("Could not respond to request"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/contacts/${userId}`);
+    },
+    onSuccess: invalidateContacts,
+    onError: showError("Could not remove contact"),
+  });
+
+  return {
+    contacts,
+    isLoading,
+    accepted: contacts.filter(entry => entry.contact.status === "accepted"),
+    incomingRequests: contacts.filter(entry => entry.contact.status === "pending" && entry.direction === "incoming"),
+    outgoingRequests: contacts.filter(entry => entry.contact.status === "pending" && entry.direction === "outgoing"),
+    sendRequest: (userId: string) => sendRequestMutation.mutate(userId),
+    respondToRequest: (contactId: string, accept: boolean) => respondMutation.mutate({ contactId, accept }),
+    removeContact: (userId: string) => removeMutation.mutate(userId),
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { visiblePresence, type PresenceFields, type PublicUser } from "@shared/schema";
+
+export type Presence = Pick<PublicUser, keyof PresenceFields>;
+
+function pickPresence(user: PublicUser): Presence {
+  const { isOnline, presence, isIdle, lastSeen, status, statusEmoji, statusExpiresAt } = user;
+  return { isOnline, presence, isIdle, lastSeen, status, statusEmoji, statusExpiresAt };
+}
+
+interface PresenceState {
+  // Everyone in the last snapshot, i.e. the people who share a chat or contact with us
+  users: PublicUser[];
+  presence: Map<string, Presence>;
+}
+
+const listeners: Array<(state: PresenceState) => void> = [];
+
+let memoryState: PresenceState = { users: [], presence: new Map() };
+
+function setPresenceState(state: PresenceState) {
+  memoryState = state;
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+// A snapshot replaces everything, since deltas may have been missed while the socket was down
+export function applyPresenceSnapshot(users: PublicUser[]) {
+  setPresenceState({
+    users,
+    presence: new Map(users.map(user => [user.id, pickPresence(user)])),
+  });
+}
+
+export function applyPresenceUpdate(userId: string, presence: Presence) {
+  const next = new Map(memoryState.presence);
+  next.set(userId, presence);
+  setPresenceState({ ...memoryState, presence: next });
+}
+
+// Live presence pushed over the socket
+export function usePresence() {
+  const [state, setState] = useState<PresenceState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  // Users the socket hasn't told us about keep what the API returned with them
+  const presenceOf = (user: PublicUser): Presence => state.presence.get(user.id) ?? pickPresence(user);
+
+  const onlineUsers = state.users
+    .filter(user => visiblePresence(presenceOf(user)) !== "offline")
+    .map(user => ({ ...user, ...presenceOf(user) }));
+
+  return { presenceOf, onlineUsers };
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { voiceMimeTypes, VOICE_MESSAGE_MAX_MS, WAVEFORM_BARS } from "@shared/schema";
+
+export interface VoiceRecording {
+  file: File;
+  durationMs: number;
+  waveform: number[];
+}
+
+// The first container this browser can record in (Chrome and Firefox: webm/ogg, Safari: mp4)
+function pickMimeType() {
+  return voiceMimeTypes.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Reduces a recording to a fixed number of peaks between 0 and 1 for the message bubble
+async function computeWaveform(blob: Blob): Promise<number[]> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = audio.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+      let peak = 0;
+      for (let i = bar * bucketSize; i < Math.min(samples.length, (bar + 1) * bucketSize); i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+    const loudest = Math.max(...peaks, 0.01);
+    return peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+  } catch {
+    // Some browsers can't decode what they record; a flat line is better than no message
+    return Array(WAVEFORM_BARS).fill(0.5);
+  } finally {
+    context.close();
+  }
+}
+
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const finishRef = useRef<((recording: VoiceRecording | null) => void) | null>(null);
+
+  const isSupported = typeof window !== "undefined" && "MediaRecorder" in window && !!navigator.mediaDevices;
+
+  const cleanup = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    recorderRef.current = null;
+    setIsRecording(false);
+    setElapsedMs(0);
+  }, []);
+
+  // Resolves with the recording, or null if it was cancelled
+  const stop = useCallback((): Promise<VoiceRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") {
+      return Promise.resolve(null);
+    }
+    return new Promise((resolve) => {
+      finishRef.current = resolve;
+      recorder.stop();
+    });
+  }, []);
+
+  const cancel = useCallback(() => {
+    finishRef.current = null;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    cleanup();
+  }, [cleanup]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorderRef.current = recorder;
+    chunksRef.current = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunksRef.current.push(event.data);
+      }
+    };
+    recorder.onstop = async () => {
+      const durationMs = Math.min(Date.now() - startedAtRef.current, VOICE_MESSAGE_MAX_MS);
+      const type = (recorder.mimeType || mimeType || "audio/webm").split(";")[0];
+      const blob = new Blob(chunksRef.current, { type });
+      const finish = finishRef.current;
+      finishRef.current = null;
+      cleanup();
+
+      if (!finish) return;
+      const extension = type.split("/")[1];
+      finish({
+        file: new File([blob], `voice-message.${extension}`, { type }),
+        durationMs,
+        waveform: await computeWaveform(blob),
+      });
+    };
+
+    recorder.start();
+    startedAtRef.current = Date.now();
+    setIsRecording(true);
+    timerRef.current = setInterval(() => {
+      const elapsed = Date.now() - startedAtRef.current;
+      setElapsedMs(elapsed);
+      // Recordings stop at the limit; the caller still gets them from stop()
+      if (elapsed >= VOICE_MESSAGE_MAX_MS && recorder.state === "recording") {
+        recorder.pause();
+      }
+    }, 200);
+  }, [cleanup]);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    isSupported,
+    isRecording,
+    elapsedMs,
+    start,
+    stop,
+    cancel,
+  };
+}
@@ -1,73 +1,330 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { Message } from "@shared/schema";
-
-interface WebSocketMessage {
-  type: 'new_message' | 'message_sent' | 'user_online' | 'user_offline' | 'typing' | 'user_status_update';
-  message?: Message;
-  userId?: string;
-  senderId?: string;
-  isTyping?: boolean;
-  lastSeen?: Date;
-  isOnline?: boolean;
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { applyPresenceSnapshot, applyPresenceUpdate } from "@/hooks/usePresence";
+import { listOutbox, removeFromOutbox, saveToOutbox, type OutboxMessage } from "@/lib/outbox";
+import {
+  serverFrameSchema,
+  protocolName,
+  PROTOCOL_VERSION,
+  PROTOCOL_UPGRADE_CLOSE_CODE,
+  type ChatMessage,
+  type ClientFrameInput,
+  type MessageType,
+  type PublicUser,
+  type ServerFrame,
+} from "@shared/schema";
+
+// Call signaling: the frames this client sends, and the ones the server sends it
+export type CallRequest = Extract<ClientFrameInput, { type: `call_${string}` }>;
+export type CallEvent = Extract<ServerFrame, { type: `call_${string}` }>;
+
+function isCallEvent(frame: ServerFrame): frame is CallEvent {
+  return frame.type.startsWith('call_');
+}
+
+// A sent message the server hasn't confirmed by then is shown as failed
+const SEND_TIMEOUT_MS = 15000;
+
+// What the connection is doing; attempt counts the reconnects tried since the last success
+export type ConnectionStatus =
+  | { state: "connected" }
+  | { state: "connecting"; attempt: number }
+  | { state: "waiting"; attempt: number; retryAt: number }
+  | { state: "offline" }
+  | { state: "outdated" };
+
+// No pointer or keyboard input for this long and the tab reports itself idle
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const IDLE_CHECK_MS = 30 * 1000;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Doubles with each attempt up to the cap; the random half spreads out clients that dropped together
+function reconnectDelay(attempt: number) {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Where a message or typing indicator goes: a direct chat or a group
+export interface ChatTarget {
+  receiverId?: string;
+  conversationId?: string;
+}
+
+// Dates arrive as ISO strings; returns the newest of them
+function latestTime(...times: Array<Date | string | null | undefined>) {
+  return times.reduce<Date | null>((latest, time) => {
+    if (!time) return latest;
+    const date = new Date(time);
+    return !latest || date > latest ? date : latest;
+  }, null);
+}
+
+// Group typing is tracked per group so the same user can be typing in several chats
+export function typingKey(senderId: string, conversationId?: string | null) {
+  return conversationId ? `${conversationId}:${senderId}` : senderId;
 }
 
 export function useWebSocket(userId?: string) {
-  const [isConnected, setIsConnected] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [status, setStatus] = useState<ConnectionStatus>({ state: "connecting", attempt: 0 });
+  const isConnected = status.state === "connected";
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const outboxRef = useRef<OutboxMessage[]>([]);
+  const sendTimeoutsRef = useRef(new Map<string, NodeJS.Timeout>());
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  // Set once the server has turned down this page's protocol version
+  const isOutdatedRef = useRef(false);
+  const callListenersRef = useRef(new Set<(event: CallEvent) => void>());
+  // Newest server time this client has seen, sent on reconnect so the server can replay what was missed
+  const cursorRef = useRef<Date | null>(null);
+  const idleRef = useRef(false);
+  const queryClient = useQueryClient();
+
+  // Returns whether the frame went out
+  const send = useCallback((frame: ClientFrameInput) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return false;
+    wsRef.current.send(JSON.stringify(frame));
+    return true;
+  }, []);
+
+  const writeOutbox = useCallback((next: OutboxMessage[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+  }, []);
+
+  const updateOutboxMessage = useCallback((clientId: string, changes: Partial<OutboxMessage>) => {
+    const entry = outboxRef.current.find(message => message.clientId === clientId);
+    if (!entry) return;
+    const updated = { ...entry, ...changes };
+    writeOutbox(outboxRef.current.map(message => message.clientId === clientId ? updated : message));
+    saveToOutbox(updated).catch(error => console.error('Outbox write error:', error));
+  }, [writeOutbox]);
+
+  const settleOutboxMessage = useCallback((clientId: string) => {
+    clearTimeout(sendTimeoutsRef.current.get(clientId));
+    sendTimeoutsRef.current.delete(clientId);
+    writeOutbox(outboxRef.current.filter(message => message.clientId !== clientId));
+    removeFromOutbox(clientId).catch(error => console.error('Outbox write error:', error));
+  }, [writeOutbox]);
+
+  // Sends an outbox message if the socket is open; otherwise it waits for the next flush
+  const transmit = useCallback((entry: OutboxMessage) => {
+    const sent = send({
+      type: 'chat_message',
+      // Errors about this message come back with its clientId
+      requestId: entry.clientId,
+      data: {
+        receiverId: entry.receiverId,
+        conversationId: entry.conversationId,
+        content: entry.content,
+        messageType: entry.messageType,
+        mediaId: entry.mediaId,
+        replyToId: entry.replyToId,
+        clientId: entry.clientId,
+      },
+    });
+    if (!sent) return;
+    clearTimeout(sendTimeoutsRef.current.get(entry.clientId));
+    sendTimeoutsRef.current.set(entry.clientId, setTimeout(() => {
+      sendTimeoutsRef.current.delete(entry.clientId);
+      updateOutboxMessage(entry.clientId, { status: "failed", error: "No response from the server" });
+    }, SEND_TIMEOUT_MS));
+  }, [send, updateOutboxMessage]);
+
+  const flushOutbox = useCallback(() => {
+    outboxRef.current
+      .filter(message => message.status === "sending")
+      .forEach(transmit);
+  }, [transmit]);
+
+  const clearSendTimeouts = useCallback(() => {
+    sendTimeoutsRef.current.forEach(timeout => clearTimeout(timeout));
+    sendTimeoutsRef.current.clear();
+  }, []);
 
   const connect = useCallback(() => {
-    if (!userId || wsRef.current?.readyState === WebSocket.OPEN) return;
+    const current = wsRef.current;
+    if (!userId || isOutdatedRef.current) return;
+    if (current?.readyState === WebSocket.OPEN || current?.readyState === WebSocket.CONNECTING) return;
+
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    setStatus({ state: "connecting", attempt: reconnectAttemptRef.current });
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
     
-    const ws = new WebSocket(wsUrl);
+    const ws = new WebSocket(wsUrl, protocolName(PROTOCOL_VERSION));
     wsRef.current = ws;
 
     ws.onopen = () => {
       console.log('WebSocket connected');
-      setIsConnected(true);
-      
-      // Authenticate the connection
-      ws.send(JSON.stringify({
-        type: 'auth',
-        userId,
-      }));
+      // The server authenticates the socket from the session cookie
+      reconnectAttemptRef.current = 0;
+      setStatus({ state: "connected" });
+      send({
+        type: 'resume',
+        since: cursorRef.current ?? undefined,
+      });
+      // A new connection starts out active on the server
+      if (idleRef.current) {
+        send({ type: 'set_idle', idle: true });
+      }
+      // Messages written while offline go out now; the server drops any it already has
+      flushOutbox();
+    };
+
+    const advanceCursor = (...times: Array<Date | string | null | undefined>) => {
+      cursorRef.current = latestTime(cursorRef.current, ...times);
     };
 
     ws.onmessage = (event) => {
       try {
-        const data: WebSocketMessage = JSON.parse(event.data);
-        
+        const parsed = serverFrameSchema.safeParse(JSON.parse(event.data));
+        if (!parsed.success) {
+          console.error('Unexpected WebSocket frame:', parsed.error.issues);
+          return;
+        }
+        const data = parsed.data;
+        if ("message" in data) {
+          const { createdAt, editedAt, deletedAt, deliveredAt, readAt } = data.message;
+          advanceCursor(createdAt, editedAt, deletedAt, deliveredAt, readAt);
+        }
+        if (isCallEvent(data)) {
+          callListenersRef.current.forEach(listener => listener(data));
+          return;
+        }
+
         switch (data.type) {
           case 'new_message':
-          case 'message_sent':
-            if (data.message) {
-              setMessages(prev => [...prev, data.message!]);
+          case 'message_sent': {
+            const incoming = data.message;
+            // Replayed after a reconnect, the message may already be here
+            setMessages(prev => prev.some(message => message.id === incoming.id)
+              ? prev.map(message => message.id === incoming.id ? { ...message, ...incoming } : message)
+              : [...prev, incoming]
+            );
+            // Our own message came back, so it has left the outbox
+            if (data.type === 'message_sent' && incoming.clientId) {
+              settleOutboxMessage(incoming.clientId);
+            }
+            // Let the sender know a direct message reached this client
+            if (data.type === 'new_message' && incoming.receiverId === userId && !incoming.deliveredAt) {
+              send({
+                type: 'message_delivered',
+                messageId: incoming.id,
+              });
+            }
+            break;
+          }
+          case 'message_delivered':
+            advanceCursor(data.deliveredAt);
+            setMessages(prev => prev.map(message =>
+              message.id === data.messageId ? { ...message, deliveredAt: data.deliveredAt } : message
+            ));
+            break;
+          case 'messages_read':
+            advanceCursor(data.readAt);
+            if (data.messageIds && data.readAt) {
+              const readIds = new Set(data.messageIds);
+              setMessages(prev => prev.map(message =>
+                readIds.has(message.id)
+                  ? { ...message, readAt: data.readAt!, deliveredAt: message.deliveredAt ?? data.readAt! }
+                  : message
+              ));
+            }
+            // Read on another of this user's devices: refresh unread counts here too
+            if (data.readerId === userId) {
+              queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+            }
+            break;
+          case 'message_edited':
+          case 'message_deleted':
+            setMessages(prev => prev.map(message =>
+              message.id === data.message.id ? { ...message, ...data.message } : message
+            ));
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+            break;
+          case 'reaction_updated':
+            setMessages(prev => prev.map(message =>
+              message.id === data.messageId ? { ...message, reactions: data.reactions } : message
+            ));
+            break;
+          case 'resumed':
+            advanceCursor(data.cursor);
+            // Too much was missed to replay: load the open chat and the chat list again
+            if (data.truncated) {
+              queryClient.invalidateQueries({ queryKey: ["/api/chat/messages"] });
+              queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
             }
             break;
-          case 'typing':
-            if (data.senderId && data.isTyping !== undefined) {
-              setTypingUsers(prev => {
-                const newSet = new Set(prev);
-                if (data.isTyping) {
-                  newSet.add(data.senderId!);
-                } else {
-                  newSet.delete(data.senderId!);
-                }
-                return newSet;
+          case 'typing': {
+            const key = typingKey(data.senderId, data.conversationId);
+            setTypingUsers(prev => {
+              const newSet = new Set(prev);
+              if (data.isTyping) {
+                newSet.add(key);
+              } else {
+                newSet.delete(key);
+              }
+              return newSet;
+            });
+            break;
+          }
+          case 'conversation_updated':
+            // Group created, renamed or membership changed
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+            break;
+          case 'friend_request':
+            // Do-not-disturb still gets the request, just without the popup
+            if (queryClient.getQueryData<PublicUser>(["/api/auth/user"])?.presence !== "dnd") {
+              toast({
+                title: "Friend request",
+                description: `${data.user.displayName} wants to add you as a contact.`,
               });
             }
+            queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+            break;
+          case 'contact_updated':
+            // Request accepted, declined, cancelled or contact removed
+            queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+            break;
+          case 'error': {
+            // The socket closes right after; the banner asks for a reload
+            if (data.code === 'upgrade_required') break;
+            const failed = outboxRef.current.find(message => message.clientId === data.requestId);
+            if (failed) {
+              clearTimeout(sendTimeoutsRef.current.get(failed.clientId));
+              sendTimeoutsRef.current.delete(failed.clientId);
+              updateOutboxMessage(failed.clientId, { status: "failed", error: data.error });
+            } else {
+              console.error('WebSocket request failed:', data);
+            }
+            toast({
+              title: failed ? "Message not sent" : "Something went wrong",
+              description: data.error,
+              variant: "destructive",
+            });
             break;
-          case 'user_online':
-          case 'user_offline':
-          case 'user_status_update':
-            // Handle user status updates
-            console.log(`User ${data.userId} is ${data.type === 'user_online' ? 'online' : 'offline'}`);
-            // You could update local user status here
+          }
+          case 'presence_snapshot':
+            applyPresenceSnapshot(data.users);
+            break;
+          case 'presence_updated':
+            if (data.userId === userId) {
+              // Changed in another tab, or the custom status ran out
+              queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+            } else {
+              applyPresenceUpdate(data.userId, data.presence);
+            }
             break;
         }
       } catch (error) {
@@ -75,76 +332,209 @@ export function useWebSocket(userId?: string) {
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       console.log('WebSocket disconnected');
-      setIsConnected(false);
-      
-      // Attempt to reconnect after 3 seconds
-      reconnectTimeoutRef.current = setTimeout(() => {
-        connect();
-      }, 3000);
+      // Closed on purpose by disconnect()
+      if (wsRef.current !== ws) return;
+      wsRef.current = null;
+      // Unconfirmed messages are sent again once the socket is back
+      clearSendTimeouts();
+
+      // This page speaks an old protocol; reconnecting won't help until it is reloaded
+      if (event.code === PROTOCOL_UPGRADE_CLOSE_CODE) {
+        isOutdatedRef.current = true;
+        setStatus({ state: "outdated" });
+        return;
+      }
+      // The online event brings the connection back
+      if (!navigator.onLine) {
+        setStatus({ state: "offline" });
+        return;
+      }
+
+      const attempt = reconnectAttemptRef.current;
+      const delay = reconnectDelay(attempt);
+      reconnectAttemptRef.current = attempt + 1;
+      setStatus({ state: "waiting", attempt: attempt + 1, retryAt: Date.now() + delay });
+      reconnectTimeoutRef.current = setTimeout(connect, delay);
     };
 
     ws.onerror = (error) => {
       console.error('WebSocket error:', error);
     };
-  }, [userId]);
+  }, [userId, queryClient, send, clearSendTimeouts, flushOutbox, settleOutboxMessage, updateOutboxMessage]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
     }
     
     if (wsRef.current) {
-      wsRef.current.close();
+      const ws = wsRef.current;
       wsRef.current = null;
+      ws.close();
     }
-    
-    setIsConnected(false);
-  }, []);
+    clearSendTimeouts();
+    reconnectAttemptRef.current = 0;
+    setStatus({ state: "connecting", attempt: 0 });
+  }, [clearSendTimeouts]);
 
-  const sendMessage = useCallback((receiverId: string, content: string, messageType: string = "text", imageUrl?: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && userId) {
-      wsRef.current.send(JSON.stringify({
-        type: 'chat_message',
-        data: {
-          senderId: userId,
-          receiverId,
-          content,
-          messageType,
-          imageUrl,
-        },
-      }));
-    }
-  }, [userId]);
-
-  const sendTypingIndicator = useCallback((receiverId: string, isTyping: boolean) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN && userId) {
-      wsRef.current.send(JSON.stringify({
-        type: 'typing',
-        senderId: userId,
-        receiverId,
-        isTyping,
-      }));
+  // Skips the rest of the backoff wait
+  const reconnectNow = useCallback(() => {
+    connect();
+  }, [connect]);
+
+  // Messages go through the outbox, so text written while offline is kept and sent on reconnect
+  const sendMessage = useCallback((target: ChatTarget, content: string, messageType: MessageType = "text", mediaId?: string, replyToId?: string) => {
+    if (!userId) return;
+    const entry: OutboxMessage = {
+      clientId: crypto.randomUUID(),
+      senderId: userId,
+      receiverId: target.receiverId,
+      conversationId: target.conversationId,
+      content,
+      messageType,
+      mediaId,
+      replyToId,
+      createdAt: Date.now(),
+      status: "sending",
+    };
+    writeOutbox([...outboxRef.current, entry]);
+    saveToOutbox(entry).catch(error => console.error('Outbox write error:', error));
+    transmit(entry);
+  }, [userId, writeOutbox, transmit]);
+
+  const retryMessage = useCallback((clientId: string) => {
+    updateOutboxMessage(clientId, { status: "sending", error: undefined });
+    const entry = outboxRef.current.find(message => message.clientId === clientId);
+    if (entry) {
+      transmit(entry);
     }
-  }, [userId]);
+  }, [updateOutboxMessage, transmit]);
+
+  const discardMessage = useCallback((clientId: string) => {
+    settleOutboxMessage(clientId);
+  }, [settleOutboxMessage]);
+
+  const editMessage = useCallback((messageId: string, content: string) => {
+    send({
+      type: 'edit_message',
+      messageId,
+      content,
+    });
+  }, [send]);
+
+  const deleteMessage = useCallback((messageId: string) => {
+    send({
+      type: 'delete_message',
+      messageId,
+    });
+  }, [send]);
+
+  const toggleReaction = useCallback((messageId: string, emoji: string) => {
+    send({
+      type: 'toggle_reaction',
+      messageId,
+      emoji,
+    });
+  }, [send]);
+
+  // Tells the server the user has seen everything senderId sent them
+  const markMessagesRead = useCallback((senderId: string) => {
+    send({
+      type: 'messages_read',
+      senderId,
+    });
+  }, [send]);
+
+  const sendCallEvent = useCallback((event: CallRequest) => {
+    send(event);
+  }, [send]);
+
+  // Returns a function that removes the listener again
+  const onCallEvent = useCallback((listener: (event: CallEvent) => void) => {
+    callListenersRef.current.add(listener);
+    return () => {
+      callListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const sendTypingIndicator = useCallback((target: ChatTarget, isTyping: boolean) => {
+    send({
+      type: 'typing',
+      ...target,
+      isTyping,
+    });
+  }, [send]);
+
+  // The server shows the user as away once every tab they have open is idle
+  useEffect(() => {
+    if (!userId) return;
+    let lastActivity = Date.now();
+    const setIdle = (idle: boolean) => {
+      if (idleRef.current === idle) return;
+      idleRef.current = idle;
+      send({ type: 'set_idle', idle });
+    };
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      setIdle(false);
+    };
+    const activityEvents = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"];
+    activityEvents.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+    const idleCheck = setInterval(() => {
+      if (Date.now() - lastActivity >= IDLE_AFTER_MS) {
+        setIdle(true);
+      }
+    }, IDLE_CHECK_MS);
+
+    return () => {
+      clearInterval(idleCheck);
+      activityEvents.forEach(name => window.removeEventListener(name, handleActivity));
+      idleRef.current = false;
+    };
+  }, [userId, send]);
 
   useEffect(() => {
     if (userId) {
+      // A different user starts without a cursor
+      cursorRef.current = null;
+      writeOutbox([]);
       connect();
+
+      // Pick up what was still unsent when the page was last closed
+      listOutbox(userId)
+        .then((saved) => {
+          const known = new Set(outboxRef.current.map(message => message.clientId));
+          writeOutbox([...saved.filter(message => !known.has(message.clientId)), ...outboxRef.current]);
+          flushOutbox();
+        })
+        .catch(error => console.error('Outbox read error:', error));
       
-      // Send periodic last seen updates
-      const lastSeenInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({
-            type: 'update_last_seen',
-            userId,
-          }));
+      // Coming back online or back to the tab is a good moment to retry without waiting
+      const handleOnline = () => connect();
+      const handleOffline = () => {
+        if (wsRef.current?.readyState === WebSocket.OPEN) return;
+        if (reconnectTimeoutRef.current) {
+          clearTimeout(reconnectTimeoutRef.current);
+          reconnectTimeoutRef.current = null;
         }
-      }, 30000); // Every 30 seconds
-      
+        setStatus({ state: "offline" });
+      };
+      const handleVisibilityChange = () => {
+        if (document.visibilityState === "visible" && navigator.onLine) {
+          connect();
+        }
+      };
+      window.addEventListener("online", handleOnline);
+      window.addEventListener("offline", handleOffline);
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+
       return () => {
-        clearInterval(lastSeenInterval);
+        window.removeEventListener("online", handleOnline);
+        window.removeEventListener("offline", handleOffline);
+        document.removeEventListener("visibilitychange", handleVisibilityChange);
         disconnect();
       };
     }
@@ -152,14 +542,25 @@ export function useWebSocket(userId?: string) {
     return () => {
       disconnect();
     };
-  }, [userId, connect, disconnect]);
+  }, [userId, connect, disconnect, writeOutbox, flushOutbox]);
 
   return {
     isConnected,
+    status,
+    reconnectNow,
     messages,
     typingUsers,
+    outbox,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendTypingIndicator,
+    markMessagesRead,
+    sendCallEvent,
+    onCallEvent,
     setMessages,
   };
 }
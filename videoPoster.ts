@@ -0,0 +1,61 @@
+export interface VideoDetails {
+  // A JPEG of an early frame, or null when the browser can't decode the video
+  poster: File | null;
+  durationMs?: number;
+  width?: number;
+  height?: number;
+}
+
+// Skip past the first frames, which are often black
+const POSTER_TIME_S = 1;
+
+function once(target: HTMLVideoElement, event: string) {
+  return new Promise<void>((resolve, reject) => {
+    target.addEventListener(event, () => resolve(), { once: true });
+    target.addEventListener("error", () => reject(target.error), { once: true });
+  });
+}
+
+// Loads a picked video off-screen to measure it and grab a poster frame before uploading
+export async function readVideoDetails(file: File): Promise<VideoDetails> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = once(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const duration = Number.isFinite(video.duration) ? video.duration : undefined;
+    const details: VideoDetails = {
+      poster: null,
+      durationMs: duration ? Math.round(duration * 1000) : undefined,
+      width: video.videoWidth || undefined,
+      height: video.videoHeight || undefined,
+    };
+
+    const seeked = once(video, "seeked");
+    video.currentTime = duration ? Math.min(POSTER_TIME_S, duration / 2) : 0;
+    await seeked;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.85));
+    if (blob) {
+      details.poster = new File([blob], "poster.jpg", { type: "image/jpeg" });
+    }
+    return details;
+  } catch {
+    // Formats the browser can't play (e.g. some .mov files) are still sent, just without a poster
+    return { poster: null };
+  } finally {
+    URL.revokeObjectURL(url);
+    video.removeAttribute("src");
+    video.load();
+  }
+}
@@ -0,0 +1,57 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { UploadError, readHeader } from "./uploads";
+
+const execFileAsync = promisify(execFile);
+
+// File signatures for the video containers we accept
+const signatures: Array<{ contentType: string; matches: (header: Buffer) => boolean }> = [
+  { contentType: "video/quicktime", matches: (header) => header.toString("ascii", 4, 12) === "ftypqt  " },
+  { contentType: "video/mp4", matches: (header) => header.toString("ascii", 4, 8) === "ftyp" },
+  { contentType: "video/webm", matches: (header) => header.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3])) },
+  { contentType: "video/ogg", matches: (header) => header.toString("ascii", 0, 4) === "OggS" },
+];
+
+export function detectVideoType(header: Buffer): string | undefined {
+  return signatures.find(signature => signature.matches(header))?.contentType;
+}
+
+export interface VideoInfo {
+  durationMs?: number;
+  width?: number;
+  height?: number;
+}
+
+// Checks an uploaded video really is one, then reads its duration and frame size with
+// ffprobe (FFPROBE_PATH, or ffprobe on the PATH). Without ffprobe nothing is probed and
+// the caller falls back to what the uploading browser reported.
+export async function probeVideo(filePath: string): Promise<VideoInfo | undefined> {
+  if (!detectVideoType(await readHeader(filePath))) {
+    throw new UploadError("File is not a supported video", 415);
+  }
+
+  let output: string;
+  try {
+    ({ stdout: output } = await execFileAsync(process.env.FFPROBE_PATH || "ffprobe", [
+      "-v", "error",
+      "-select_streams", "v:0",
+      "-show_entries", "stream=width,height:format=duration",
+      "-of", "json",
+      filePath,
+    ], { timeout: 10_000 }));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return undefined;
+    }
+    throw new UploadError("Video could not be read", 415);
+  }
+
+  const probed = JSON.parse(output);
+  const stream = probed.streams?.[0];
+  const seconds = Number(probed.format?.duration);
+  return {
+    durationMs: seconds > 0 ? Math.round(seconds * 1000) : undefined,
+    width: stream?.width || undefined,
+    height: stream?.height || undefined,
+  };
+}